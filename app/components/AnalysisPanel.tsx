@@ -0,0 +1,57 @@
+'use client';
+
+import { AnalysisBand, MazeAnalysis } from '@/types';
+import { isWithinBand } from '@/lib/analysis';
+
+type AnalysisPanelProps = {
+  analysis: MazeAnalysis | null;
+  band?: AnalysisBand;
+  autoReroll: boolean;
+  rerollCount: number;
+  onAutoRerollChange: (autoReroll: boolean) => void;
+};
+
+/**
+ * 迷宫分析面板：显示结构指标, 以及是否落在当前难度的目标区间内
+ * 自定义难度没有目标区间（band 为空）, 不判断区间也不能自动重新生成
+ */
+export default function AnalysisPanel({
+  analysis,
+  band,
+  autoReroll,
+  rerollCount,
+  onAutoRerollChange,
+}: AnalysisPanelProps) {
+  return (
+    <div className="w-full flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+      <div className="flex items-center gap-4">
+        <span className="font-bold">迷宫分析</span>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={autoReroll}
+            disabled={!band}
+            onChange={(e) => onAutoRerollChange(e.target.checked)}
+          />
+          不在难度区间内时自动重新生成
+        </label>
+        {autoReroll && rerollCount > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">已重新生成 {rerollCount} 次</span>
+        )}
+      </div>
+      {analysis && (
+        <div className="grid grid-cols-3 gap-x-4 text-xs">
+          <span>最短路线：{analysis.solutionLength >= 0 ? `${analysis.solutionLength} 步` : '无解'}</span>
+          <span>死路：{analysis.deadEnds}</span>
+          <span>岔路口：{analysis.junctions}</span>
+          <span>河流度：{analysis.riverFactor.toFixed(1)}</span>
+          <span>最长走廊：{analysis.longestCorridor} 格</span>
+          <span>
+            路线占比：{(analysis.solutionRatio * 100).toFixed(1)}%
+            {!band || isWithinBand(analysis, band) ? '' : '（不在难度区间内）'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { Direction } from '@/types';
+
+type DirectionPadProps = {
+  disabled?: boolean;
+  onPress: (direction: Direction) => void;
+  onRelease: (direction: Direction) => void;
+};
+
+/**
+ * 四个按钮在 3x3 网格中的位置
+ */
+const PAD_BUTTONS: { direction: Direction; label: string; className: string }[] = [
+  { direction: Direction.UP, label: '↑', className: 'col-start-2 row-start-1' },
+  { direction: Direction.LEFT, label: '←', className: 'col-start-1 row-start-2' },
+  { direction: Direction.RIGHT, label: '→', className: 'col-start-3 row-start-2' },
+  { direction: Direction.DOWN, label: '↓', className: 'col-start-2 row-start-3' },
+];
+
+/**
+ * 屏幕方向键：按住持续移动, 松开停止（与键盘的按住移动一致）
+ */
+export default function DirectionPad({ disabled, onPress, onRelease }: DirectionPadProps) {
+  return (
+    <div className="grid grid-cols-3 grid-rows-3 gap-1 select-none touch-none">
+      {PAD_BUTTONS.map(({ direction, label, className }) => (
+        <button
+          key={direction}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            onPress(direction);
+          }}
+          onPointerUp={() => onRelease(direction)}
+          onPointerCancel={() => onRelease(direction)}
+          onContextMenu={(e) => e.preventDefault()}
+          className={`${className} w-12 h-12 bg-gray-200 hover:bg-gray-300 active:bg-gray-400 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg text-xl font-bold disabled:opacity-60 disabled:cursor-not-allowed`}
+          disabled={disabled}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Cell, Position } from '@/types';
+import { CELL_COLORS } from '@/constants';
+import { MazeMarker } from './MazeCanvas';
+
+type FloorMiniMapProps = {
+  floor: Cell[][];
+  label: string;
+  active: boolean;
+  stairs: MazeMarker[];
+  player?: Position;
+  end?: Position;
+  onClick?: () => void;
+};
+
+/**
+ * 小地图的最大边长（像素）
+ */
+const MINI_MAP_PX = 120;
+
+/**
+ * 多层迷宫的楼层小地图：墙、路、楼梯（按上楼 / 下楼 / 上下都可以着色）, 以及该层上的玩家和终点
+ */
+export default function FloorMiniMap({ floor, label, active, stairs, player, end, onClick }: FloorMiniMapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = floor.length;
+  const height = floor[0]?.length ?? 0;
+  const scale = Math.max(1, Math.floor(MINI_MAP_PX / Math.max(width, height, 1)));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    // 定义 填充一个格子的函数
+    const fill = (pos: Position, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(pos.x * scale, pos.y * scale, scale, scale);
+    };
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        fill({ x, y }, floor[x][y] === 1 ? CELL_COLORS.path : CELL_COLORS.wall);
+      }
+    }
+    stairs.forEach(({ pos, color }) => fill(pos, color));
+    if (end) fill(end, CELL_COLORS.end);
+    if (player) fill(player, CELL_COLORS.player);
+  }, [floor, width, height, scale, stairs, player, end]);
+
+  return (
+    <button
+      onClick={onClick}
+      className={`flex flex-col items-center gap-1 p-1 rounded border-2 ${
+        active ? 'border-blue-600' : 'border-transparent'
+      }`}
+    >
+      <canvas ref={canvasRef} width={width * scale} height={height * scale} />
+      <span className="text-xs text-gray-700 dark:text-gray-300">{label}</span>
+    </button>
+  );
+}
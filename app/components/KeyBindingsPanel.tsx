@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Direction, KeyBindings } from '@/types';
+import { RESERVED_KEYS, DIRECTION_LABELS } from '@/constants';
+import { formatKey } from '@/lib/input';
+
+type KeyBindingsPanelProps = {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onReset: () => void;
+};
+
+/**
+ * 键位设置面板
+ * 点击「添加」后按下新按键即可绑定（Esc 取消）；点击已绑定的按键可以解绑, 每个方向至少保留一个按键
+ */
+export default function KeyBindingsPanel({ bindings, onChange, onReset }: KeyBindingsPanelProps) {
+  const [capturing, setCapturing] = useState<Direction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 等待按键时在捕获阶段拦截按键, 避免同时触发游戏移动
+   */
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const key = e.key.toLowerCase();
+      setCapturing(null);
+      if (key === 'escape') return;
+      if (RESERVED_KEYS.includes(key)) {
+        setError(`${formatKey(key)} 已用于撤销 / 重做或上下楼`);
+        return;
+      }
+      // 同一个按键只能绑定一个方向：先从其他方向移除
+      const next = { ...bindings };
+      for (const direction of Object.keys(next) as Direction[]) {
+        next[direction] = next[direction].filter((bound) => bound !== key);
+      }
+      next[capturing] = [...next[capturing], key];
+      setError(null);
+      onChange(next);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [capturing, bindings, onChange]);
+
+  /**
+   * 定义 解绑按键的函数
+   */
+  const removeKey = (direction: Direction, key: string) => {
+    if (bindings[direction].length <= 1) return;
+    onChange({ ...bindings, [direction]: bindings[direction].filter((bound) => bound !== key) });
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      {(Object.keys(DIRECTION_LABELS) as Direction[]).map((direction) => (
+        <div key={direction} className="flex items-center gap-2">
+          <span className="w-6 text-gray-700 dark:text-gray-300">{DIRECTION_LABELS[direction]}</span>
+          {bindings[direction].map((key) => (
+            <button
+              key={key}
+              onClick={() => removeKey(direction, key)}
+              title="点击解绑"
+              className="px-2 py-0.5 border rounded font-mono hover:line-through"
+            >
+              {formatKey(key)}
+            </button>
+          ))}
+          <button
+            onClick={() => setCapturing(direction)}
+            className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded font-medium"
+          >
+            {capturing === direction ? '请按键…' : '添加'}
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onReset}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          恢复默认键位
+        </button>
+        {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { Difficulty, RunRecord } from '@/types';
+import { DIFFICULTY_CONFIG, LEADERBOARD_SIZE } from '@/constants';
+import { getLeaderboard, getRecordScore } from '@/lib/storage';
+import { formatDuration } from '@/lib/scoring';
+
+type LeaderboardProps = {
+  history: RunRecord[];
+  disabled?: boolean;
+  onReplay: (record: RunRecord) => void;
+  onClear: () => void;
+};
+
+/**
+ * 排行榜和历史记录面板
+ * 排行榜按难度分页, 不含一键通关的记录；历史记录按时间倒序, 都可以重玩当时的迷宫
+ * 自定义难度的记录单独一页, 只按时间倒序列出, 不排名
+ */
+export default function Leaderboard({ history, disabled, onReplay, onClear }: LeaderboardProps) {
+  // null 表示自定义难度页
+  const [difficulty, setDifficulty] = useState<Difficulty | null>(Difficulty.MEDIUM);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const isCustom = difficulty === null;
+  const records = isCustom
+    ? history.filter((record) => record.preset !== undefined).slice(0, LEADERBOARD_SIZE)
+    : showHistory
+      ? history
+          .filter((record) => record.difficulty === difficulty && record.preset === undefined)
+          .slice(0, LEADERBOARD_SIZE)
+      : getLeaderboard(history, difficulty, LEADERBOARD_SIZE);
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        {Object.values(Difficulty).map((d) => (
+          <button
+            key={d}
+            onClick={() => setDifficulty(d)}
+            className={`px-3 py-1 rounded-lg font-medium ${
+              difficulty === d
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'
+            }`}
+          >
+            {DIFFICULTY_CONFIG[d].label}
+          </button>
+        ))}
+        <button
+          onClick={() => setDifficulty(null)}
+          className={`px-3 py-1 rounded-lg font-medium ${
+            isCustom
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'
+          }`}
+        >
+          自定义
+        </button>
+        <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={showHistory || isCustom}
+            disabled={isCustom}
+            onChange={(e) => setShowHistory(e.target.checked)}
+          />
+          最近记录
+        </label>
+        <button
+          onClick={onClear}
+          className="ml-auto px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={history.length === 0}
+        >
+          清空记录
+        </button>
+      </div>
+      {records.length === 0 ? (
+        <div className="text-gray-500 dark:text-gray-400">暂无记录</div>
+      ) : (
+        <table className="w-full text-left">
+          <thead className="text-gray-500 dark:text-gray-400">
+            <tr>
+              <th>#</th>
+              {isCustom && <th>难度</th>}
+              <th>得分</th>
+              <th>提示</th>
+              <th>用时</th>
+              <th>步数</th>
+              <th>日期</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record, index) => (
+              <tr key={record.id}>
+                <td>{index + 1}</td>
+                {isCustom && <td>{record.preset}</td>}
+                <td>{record.autoSolved ? '一键通关' : getRecordScore(record)}</td>
+                <td>{record.hintsUsed ?? 0}</td>
+                <td>{formatDuration(record.time)}</td>
+                <td>{record.moves}</td>
+                <td>{new Date(record.finishedAt).toLocaleDateString()}</td>
+                <td>
+                  <button
+                    onClick={() => onReplay(record)}
+                    className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+                    disabled={disabled}
+                  >
+                    重玩
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
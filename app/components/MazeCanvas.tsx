@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { Position } from '@/types';
+import { CANVAS_MAX_CELL_PX, CANVAS_MAX_HEIGHT_RATIO, CANVAS_ZOOM_STEP, CLICK_MAX_DISTANCE } from '@/constants';
+
+/**
+ * 画在格子上方的标记（玩家、终点等）, 默认画圆, 有 label 时改为画文字（如箭头）
+ */
+export type MazeMarker = {
+  pos: Position;
+  color: string;
+  label?: string;
+};
+
+type MazeCanvasProps = {
+  width: number;
+  height: number;
+  getCellColor: (x: number, y: number) => string;
+  markers: MazeMarker[];
+  focus?: Position;
+  onCellClick?: (pos: Position) => void;
+  dirtyCells?: Set<string>;
+  fullRedrawKey?: unknown;
+};
+
+/**
+ * 定义 记录颜色可能变化的格子的 hook, 返回交给 MazeCanvas 的 dirtyCells 和记录格子的 markDirty
+ * 格子键以 "x,y" 开头（之后的部分如层号会被忽略）, 记录多余的格子只会多比较几次颜色
+ */
+export const useDirtyCells = () => {
+  const [dirtyCells] = useState(() => new Set<string>());
+  const markDirty = useCallback(
+    (keys: Iterable<string>) => {
+      for (const key of keys) dirtyCells.add(key);
+    },
+    [dirtyCells]
+  );
+  return { dirtyCells, markDirty };
+};
+
+/**
+ * 定义 由状态推导出的格子集合（视野、提示等）变化时记录新旧格子的 hook
+ * layout effect 在画布的 effect 之前执行：清理函数记录旧集合的格子, 新的 effect 记录新集合的格子
+ */
+export const useDirtyOnChange = (markDirty: (keys: Iterable<string>) => void, keys: Iterable<string> | null) => {
+  useLayoutEffect(() => {
+    if (!keys) return;
+    markDirty(keys);
+    return () => markDirty(keys);
+  }, [markDirty, keys]);
+};
+
+/**
+ * 迷宫画布渲染器
+ * 格子颜色先画到 1 像素 = 1 格的离屏画布上, 再整体缩放到可见画布；支持适应窗口、滚轮缩放、拖动平移、跟随玩家和点击格子
+ * getCellColor 变化时重画颜色变化的格子, 调用方需要用 useCallback 保持它稳定：
+ * 传了 dirtyCells 时只比较其中的格子, 尺寸或 fullRedrawKey（如迷宫本身）变化时才逐格比较全部格子；不传时每次都逐格比较
+ * 缩放、平移和标记变化只重新缩放绘制离屏画布, 不再遍历格子
+ */
+export default function MazeCanvas({
+  width,
+  height,
+  getCellColor,
+  markers,
+  focus,
+  onCellClick,
+  dirtyCells,
+  fullRedrawKey,
+}: MazeCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const offscreenRef = useRef<HTMLCanvasElement | null>(null);
+  const colorCacheRef = useRef<string[]>([]);
+  const fullRedrawKeyRef = useRef<unknown>(undefined);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [follow, setFollow] = useState(false);
+
+  // 适应窗口时的格子大小, 以及当前缩放后的格子大小
+  const fitCell = width > 0 && height > 0 ? Math.min(viewport.width / width, viewport.height / height) : 0;
+  const maxZoom = fitCell > 0 ? Math.max(1, CANVAS_MAX_CELL_PX / fitCell) : 1;
+  const cell = fitCell * zoom;
+
+  /**
+   * 定义 计算迷宫左上角在画布上位置的函数：跟随模式下让 focus 居中, 否则居中后加上平移量
+   */
+  const getOrigin = useCallback(() => {
+    if (follow && focus) {
+      return {
+        x: viewport.width / 2 - (focus.x + 0.5) * cell,
+        y: viewport.height / 2 - (focus.y + 0.5) * cell,
+      };
+    }
+    return {
+      x: (viewport.width - width * cell) / 2 + pan.x,
+      y: (viewport.height - height * cell) / 2 + pan.y,
+    };
+  }, [follow, focus, viewport, width, height, cell, pan]);
+
+  /**
+   * 监听容器尺寸变化, 画布宽度跟随容器, 高度按迷宫比例且不超过窗口高度的一定比例
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const updateViewport = () => {
+      const viewportWidth = container.clientWidth;
+      const ratio = width > 0 ? height / width : 1;
+      const viewportHeight = Math.min(viewportWidth * ratio, window.innerHeight * CANVAS_MAX_HEIGHT_RATIO);
+      setViewport({ width: viewportWidth, height: Math.floor(viewportHeight) });
+    };
+    updateViewport();
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(container);
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [width, height]);
+
+  /**
+   * 迷宫尺寸变化时回到适应窗口的视图
+   */
+  useEffect(() => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  }, [width, height]);
+
+  /**
+   * 更新离屏画布：比较格子颜色, 只重画颜色变化的格子
+   * 有 dirtyCells 时只比较其中的格子, 离屏画布重建或 fullRedrawKey 变化时比较全部格子
+   */
+  useEffect(() => {
+    if (width === 0 || height === 0) return;
+    // 尺寸变化时重建离屏画布, 清空颜色缓存让所有格子重画
+    let offscreen = offscreenRef.current;
+    let fullRedraw = !dirtyCells || fullRedrawKeyRef.current !== fullRedrawKey;
+    if (!offscreen || offscreen.width !== width || offscreen.height !== height) {
+      offscreen = document.createElement('canvas');
+      offscreen.width = width;
+      offscreen.height = height;
+      offscreenRef.current = offscreen;
+      colorCacheRef.current = new Array(width * height);
+      fullRedraw = true;
+    }
+    const offCtx = offscreen.getContext('2d');
+    if (!offCtx) return;
+    const cache = colorCacheRef.current;
+    const paintCell = (x: number, y: number) => {
+      const color = getCellColor(x, y);
+      const index = x * height + y;
+      if (cache[index] === color) return;
+      cache[index] = color;
+      offCtx.fillStyle = color;
+      offCtx.fillRect(x, y, 1, 1);
+    };
+    if (fullRedraw) {
+      for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) {
+          paintCell(x, y);
+        }
+      }
+    } else {
+      dirtyCells?.forEach((key) => {
+        const [x, y] = key.split(',').map(Number);
+        if (x >= 0 && x < width && y >= 0 && y < height) paintCell(x, y);
+      });
+    }
+    fullRedrawKeyRef.current = fullRedrawKey;
+    dirtyCells?.clear();
+  }, [width, height, getCellColor, dirtyCells, fullRedrawKey]);
+
+  /**
+   * 重画可见画布：把离屏画布缩放绘制到可见画布, 再画标记
+   * 依赖 getCellColor 是为了在离屏画布更新后（上一个 effect 先执行）重新绘制
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const offscreen = offscreenRef.current;
+    if (!canvas || !offscreen || width === 0 || height === 0 || viewport.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== viewport.width * dpr || canvas.height !== viewport.height * dpr) {
+      canvas.width = viewport.width * dpr;
+      canvas.height = viewport.height * dpr;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewport.width, viewport.height);
+    const origin = getOrigin();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(offscreen, origin.x, origin.y, width * cell, height * cell);
+
+    for (const marker of markers) {
+      ctx.fillStyle = marker.color;
+      if (marker.label) {
+        ctx.font = `bold ${Math.max(6, cell * 0.8)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(marker.label, origin.x + (marker.pos.x + 0.5) * cell, origin.y + (marker.pos.y + 0.5) * cell);
+        continue;
+      }
+      ctx.beginPath();
+      ctx.arc(
+        origin.x + (marker.pos.x + 0.5) * cell,
+        origin.y + (marker.pos.y + 0.5) * cell,
+        Math.max(1, cell * 0.4),
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+  }, [width, height, getCellColor, viewport, cell, getOrigin, markers]);
+
+  /**
+   * 定义 以画布上某点为中心缩放的函数, 缩放后该点下方的格子保持不动
+   */
+  const zoomAt = useCallback(
+    (factor: number, screenX: number, screenY: number) => {
+      const nextZoom = Math.min(maxZoom, Math.max(1, zoom * factor));
+      if (nextZoom === zoom || fitCell === 0) return;
+      const origin = getOrigin();
+      const worldX = (screenX - origin.x) / cell;
+      const worldY = (screenY - origin.y) / cell;
+      const nextCell = fitCell * nextZoom;
+      setZoom(nextZoom);
+      setPan({
+        x: screenX - worldX * nextCell - (viewport.width - width * nextCell) / 2,
+        y: screenY - worldY * nextCell - (viewport.height - height * nextCell) / 2,
+      });
+    },
+    [zoom, maxZoom, fitCell, cell, getOrigin, viewport, width, height]
+  );
+
+  /**
+   * 滚轮缩放（需要非被动监听才能阻止页面滚动）
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? CANVAS_ZOOM_STEP : 1 / CANVAS_ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  /**
+   * 鼠标拖动平移：拖动时退出跟随模式, 从当前画面位置开始平移
+   */
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pressRef.current = { x: e.clientX, y: e.clientY };
+    if (e.pointerType !== 'mouse') return; // 触屏上的滑动用于操控玩家, 不拖动画面
+    if (follow) {
+      const origin = getOrigin();
+      setPan({
+        x: origin.x - (viewport.width - width * cell) / 2,
+        y: origin.y - (viewport.height - height * cell) / 2,
+      });
+      setFollow(false);
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setPan((prev) => ({ x: prev.x + e.clientX - drag.x, y: prev.y + e.clientY - drag.y }));
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  /**
+   * 松开时如果几乎没有移动, 视为点击, 换算出点中的格子
+   */
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null;
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!press || !onCellClick || cell === 0) return;
+    if (Math.hypot(e.clientX - press.x, e.clientY - press.y) > CLICK_MAX_DISTANCE) return;
+    const origin = getOrigin();
+    const x = Math.floor((e.nativeEvent.offsetX - origin.x) / cell);
+    const y = Math.floor((e.nativeEvent.offsetY - origin.y) / cell);
+    if (x >= 0 && x < width && y >= 0 && y < height) onCellClick({ x, y });
+  };
+
+  const handlePointerCancel = () => {
+    dragRef.current = null;
+    pressRef.current = null;
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => zoomAt(CANVAS_ZOOM_STEP, viewport.width / 2, viewport.height / 2)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          放大
+        </button>
+        <button
+          onClick={() => zoomAt(1 / CANVAS_ZOOM_STEP, viewport.width / 2, viewport.height / 2)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          缩小
+        </button>
+        <button
+          onClick={() => {
+            setZoom(1);
+            setPan({ x: 0, y: 0 });
+          }}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          适应窗口
+        </button>
+        <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+          跟随玩家
+        </label>
+      </div>
+      <div ref={containerRef} className="w-full">
+        <canvas
+          ref={canvasRef}
+          style={{ width: viewport.width, height: viewport.height }}
+          className="block mx-auto border-2 border-gray-800 dark:border-gray-200 touch-none cursor-grab"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,123 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Cell, Position, Direction, Difficulty } from '@/types';
-import { DIFFICULTY_CONFIG, MOVE_INTERVAL_MS, AUTO_MOVE_MS } from '@/constants';
-import { generateMazeGrid, findShortestPath, keyToDirection } from '@/lib/mazeUtils';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  Cell,
+  Position,
+  Direction,
+  Difficulty,
+  MazeAlgorithm,
+  MazeData,
+  SolverAlgorithm,
+  SearchEvent,
+  SearchEventType,
+  GenerationEvent,
+  GenerationEventType,
+  RunStats,
+  RunRecord,
+  Replay,
+  ReplayMove,
+  VisibilityMode,
+  KeyBindings,
+  Hint,
+  HintType,
+  MazeAnalysis,
+  EndpointMode,
+  MazePreset,
+  Topology,
+  EntityType,
+  Enemy,
+  EnemyConfig,
+  EnemyMode,
+  RandomFn,
+} from '@/types';
+import {
+  DIFFICULTY_CONFIG,
+  CUSTOM_PRESET_CONFIG,
+  ALGORITHM_CONFIG,
+  ENDPOINT_CONFIG,
+  SOLVER_CONFIG,
+  MOVE_INTERVAL_MS,
+  AUTO_MOVE_MS,
+  GENERATION_SPEED_DEFAULT,
+  GAME_TICK_MS,
+  DEFAULT_ENEMY_CONFIG,
+  ENEMY_COUNT_MAX,
+  ENEMY_SPEED_MIN,
+  ENEMY_SPEED_MAX,
+  ENEMY_VISION_MIN,
+  ENEMY_VISION_MAX,
+  CELL_COLORS,
+  HEATMAP_COLORS,
+  VISIBILITY_CONFIG,
+  DEFAULT_KEY_BINDINGS,
+  SWIPE_MIN_DISTANCE,
+  GAMEPAD_DEADZONE,
+  TRAVEL_SPEED_MIN,
+  TRAVEL_SPEED_MAX,
+  TRAVEL_SPEED_DEFAULT,
+  HINT_CONFIG,
+  DIRECTION_LABELS,
+  DIRECTION_ARROWS,
+  KEY_COLOR_CONFIG,
+  REROLL_MAX_ATTEMPTS,
+} from '@/constants';
+import {
+  generateMazeGrid,
+  keyToDirection,
+  findShortestPath,
+  getDirectionBetween,
+  getRunPath,
+} from '@/lib/mazeUtils';
+import { MAZE_SOLVERS } from '@/lib/solvers';
+import { createSeededRandom, randomSeed, parseSeed } from '@/lib/random';
+import { createRunStats, calculateEfficiency, calculateScore, formatDuration, getElapsedMs } from '@/lib/scoring';
+import { encodeMazeCode, decodeMazeCode } from '@/lib/mazeFormat';
+import { getReplayPositions } from '@/lib/replay';
+import { getVisibleCells } from '@/lib/visibility';
+import { getSwipeDirection, getGamepadDirection } from '@/lib/input';
+import { getHint } from '@/lib/hints';
+import { analyzeMaze, getDifficultyBand, isWithinBand } from '@/lib/analysis';
+import {
+  createEntityIndex,
+  entityKey,
+  getEntityMove,
+  getEntityDirection,
+  collectAt,
+  countCoins,
+  hasAllCoins,
+  solveEntityMaze,
+} from '@/lib/entities';
+import { spawnEnemies, stepEnemy, isCaughtBy } from '@/lib/enemies';
+import { LoopSystem, startGameLoop } from '@/lib/gameLoop';
+import {
+  loadRunHistory,
+  saveRunRecord,
+  clearRunHistory,
+  loadSettings,
+  saveSettings,
+  loadPresets,
+  savePreset,
+  deletePreset,
+  loadKeyBindings,
+} from '@/lib/storage';
+import MazeTransferPanel from './MazeTransferPanel';
+import PlaybackControls from './PlaybackControls';
+import MazeCanvas, { MazeMarker, useDirtyCells, useDirtyOnChange } from './MazeCanvas';
+import RunResults from './RunResults';
+import Leaderboard from './Leaderboard';
+import ReplayPanel from './ReplayPanel';
+import DirectionPad from './DirectionPad';
+import KeyBindingsPanel from './KeyBindingsPanel';
+import PresetEditor from './PresetEditor';
+import SideModeGame from './SideModeGame';
+import MazeModeSelector from './MazeModeSelector';
+import AnalysisPanel from './AnalysisPanel';
+
+/**
+ * 撤销 / 重做操作
+ */
+type HistoryAction = 'undo' | 'redo';
 
 /**
  * 迷宫游戏组件
@@ -11,97 +125,499 @@ import { generateMazeGrid, findShortestPath, keyToDirection } from '@/lib/mazeUt
 export default function MazeGame() {
 
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithm>(
+    DIFFICULTY_CONFIG[Difficulty.MEDIUM].algorithm
+  );
+  const [topology, setTopology] = useState<Topology>(Topology.SQUARE);
+  const [levels, setLevels] = useState(1);
+  const [versus, setVersus] = useState(false);
+  // 单层方格以外的模式使用自己的种子, 和单层方格迷宫互不影响；第一次进入这些模式时生成
+  const [sideSeed, setSideSeed] = useState<number | null>(null);
+  const [endpointMode, setEndpointMode] = useState<EndpointMode>(EndpointMode.CORNERS);
+  const [entitiesEnabled, setEntitiesEnabled] = useState(false);
+  const [collected, setCollected] = useState<Set<string>>(new Set());
+  const [enemiesEnabled, setEnemiesEnabled] = useState(false);
+  const [enemyConfig, setEnemyConfig] = useState<EnemyConfig>(DEFAULT_ENEMY_CONFIG);
+  const [enemies, setEnemies] = useState<Enemy[]>([]);
+  const [caughtAt, setCaughtAt] = useState<number | null>(null);
+  const [customPreset, setCustomPreset] = useState<MazePreset | null>(null);
+  const [presets, setPresets] = useState<MazePreset[]>([]);
   const [maze, setMaze] = useState<Cell[][]>([]);
+  const [mazeMeta, setMazeMeta] = useState<
+    Pick<MazeData, 'seed' | 'algorithm' | 'difficulty' | 'preset' | 'openings' | 'entities'>
+  >({});
+  const [seedInput, setSeedInput] = useState('');
+  const [startPos, setStartPos] = useState<Position>({ x: 1, y: 1 });
   const [playerPos, setPlayerPos] = useState<Position>({ x: 1, y: 1 });
   const [endPos, setEndPos] = useState<Position>({ x: 0, y: 0 });
   const [trail, setTrail] = useState<Set<string>>(new Set());
   const [ifAutoMoving, setIfAutoMoving] = useState(false);
   const [autoFinished, setAutoFinished] = useState(false);
+  const [solver, setSolver] = useState<SolverAlgorithm>(SolverAlgorithm.BFS);
+  const [visualizeSearch, setVisualizeSearch] = useState(false);
+  const [searchMarks, setSearchMarks] = useState<Map<string, SearchEventType>>(new Map());
+  const [autoPaused, setAutoPaused] = useState(false);
+  const [autoSpeed, setAutoSpeed] = useState(1000 / AUTO_MOVE_MS);
+  const [animateGeneration, setAnimateGeneration] = useState(false);
+  const [ifGenerating, setIfGenerating] = useState(false);
+  const [genPaused, setGenPaused] = useState(false);
+  const [genSpeed, setGenSpeed] = useState(GENERATION_SPEED_DEFAULT);
+  const [genHead, setGenHead] = useState<Position | null>(null);
+  const [branchCells, setBranchCells] = useState<Set<string>>(new Set());
+  const [solveStats, setSolveStats] = useState<{ solver: SolverAlgorithm; visited: number; path: number } | null>(null);
+  const [runStats, setRunStats] = useState<RunStats>(createRunStats);
+  const [optimalSteps, setOptimalSteps] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [history, setHistory] = useState<RunRecord[]>([]);
+  const [moveLog, setMoveLog] = useState<ReplayMove[]>([]);
+  const [replay, setReplay] = useState<{ moves: ReplayMove[]; positions: Position[] } | null>(null);
+  const [replayIndex, setReplayIndex] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [visitCounts, setVisitCounts] = useState<Map<string, number>>(new Map());
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [undoStack, setUndoStack] = useState<Position[]>([]);
+  const [redoStack, setRedoStack] = useState<Position[]>([]);
+  const [visibility, setVisibility] = useState<VisibilityMode>(VisibilityMode.FULL);
+  const [explored, setExplored] = useState<Set<string>>(new Set());
+  // 颜色可能变化的格子：移动、轨迹和搜索更新时记录, 画布只重画这些格子
+  const { dirtyCells, markDirty } = useDirtyCells();
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(DEFAULT_KEY_BINDINGS);
+  const [gamepadConnected, setGamepadConnected] = useState(false);
+  const [ifTraveling, setIfTraveling] = useState(false);
+  const [travelSpeed, setTravelSpeed] = useState(TRAVEL_SPEED_DEFAULT);
+  const [alwaysRun, setAlwaysRun] = useState(false);
+  const [hintType, setHintType] = useState<HintType>(HintType.PATH);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [autoReroll, setAutoReroll] = useState(false);
+  const [rerollCount, setRerollCount] = useState(0);
   const activeDirectionRef = useRef<Direction | null>(null);
+  const activeHistoryRef = useRef<HistoryAction | null>(null);
+  const swipeRef = useRef<{ x: number; y: number; direction: Direction | null } | null>(null);
+  const gamepadDirectionRef = useRef<Direction | null>(null);
+  const travelPathRef = useRef<Position[]>([]);
   const remainingAutoPathRef = useRef<Position[]>([]);
-  const autoTimerRef = useRef<number | null>(null);
+  const searchEventsRef = useRef<SearchEvent[]>([]);
+  const searchIndexRef = useRef(0);
+  const genEventsRef = useRef<GenerationEvent[]>([]);
+  const genIndexRef = useRef(0);
+  const genTargetRef = useRef<Cell[][]>([]);
+  const replayIndexRef = useRef(0);
+  const replayClockRef = useRef(0);
+  const replayReturnPosRef = useRef<Position>({ x: 1, y: 1 });
+  const enemyRandomRef = useRef<RandomFn>(Math.random);
+
+  // 单层方格迷宫支持全部功能, 其他拓扑、多层迷宫和双人对战由单独的组件处理
+  const isClassicMaze = topology === Topology.SQUARE && levels === 1 && !versus;
+  // 自动通关、生成动画或录像回放进行中时, 禁止玩家操作
+  const ifBusy = ifAutoMoving || ifGenerating || replay !== null;
 
-  // 根据难度获取迷宫大小
-  const mazeSize = DIFFICULTY_CONFIG[difficulty].size;
-  const MAZE_WIDTH = mazeSize;
-  const MAZE_HEIGHT = mazeSize;
+  // 根据难度获取迷宫大小, 选择了自定义难度时优先使用自定义难度的尺寸和分支
+  const presetSize = DIFFICULTY_CONFIG[difficulty].size;
+  const MAZE_WIDTH = customPreset?.width ?? presetSize;
+  const MAZE_HEIGHT = customPreset?.height ?? presetSize;
+  // 环路比例和机关数量：自定义难度使用自己的配置, 不沿用当前选中的内置难度
+  const levelConfig = customPreset ? CUSTOM_PRESET_CONFIG : DIFFICULTY_CONFIG[difficulty];
   const branchConfig = {
-    branches: DIFFICULTY_CONFIG[difficulty].branches,
-    branchMaxLength: DIFFICULTY_CONFIG[difficulty].branchMaxLength,
+    branches: customPreset?.branches ?? DIFFICULTY_CONFIG[difficulty].branches,
+    branchMaxLength: customPreset?.branchMaxLength ?? DIFFICULTY_CONFIG[difficulty].branchMaxLength,
+    braid: levelConfig.braid,
   };
+  // 当前迷宫的实际尺寸（导入的迷宫可能与难度尺寸不同）
+  const gridWidth = maze.length;
+  const gridHeight = maze[0]?.length ?? 0;
+
+  // 当前迷宫的机关（钥匙、门、金币、传送门、单向格）, 按位置索引
+  const entities = useMemo(() => mazeMeta.entities ?? [], [mazeMeta.entities]);
+  const entityIndex = useMemo(() => createEntityIndex(entities), [entities]);
+
+  // 当前迷宫生成时的配置（视野、提示、目标区间）, 导入的迷宫没有难度时使用当前选中的难度
+  const mazeConfig =
+    mazeMeta.preset !== undefined ? CUSTOM_PRESET_CONFIG : DIFFICULTY_CONFIG[mazeMeta.difficulty ?? difficulty];
 
   /**
-   * 定义 生成新迷宫的函数
+   * 视野限制：计算玩家当前能看到的格子（生成动画时不限制）
    */
-  const generateMaze = useCallback(() => {
-    const newMaze = generateMazeGrid(MAZE_WIDTH, MAZE_HEIGHT, branchConfig);
-    setMaze(newMaze);
-    setPlayerPos({ x: 1, y: 1 }); // 重置玩家位置到起点
-    setEndPos({ x: MAZE_WIDTH - 2, y: MAZE_HEIGHT - 2 }); // 设置终点位置
+  const visionRadius = mazeConfig.visionRadius;
+  const fogActive = visibility !== VisibilityMode.FULL && !ifGenerating;
+  const visibleCells = useMemo(
+    () =>
+      fogActive
+        ? new Set(getVisibleCells(maze, playerPos, visibility, visionRadius).map((pos) => `${pos.x},${pos.y}`))
+        : null,
+    [fogActive, maze, playerPos, visibility, visionRadius]
+  );
+
+  /**
+   * 把看到的格子加入已探索区域, 离开后仍以暗色显示
+   */
+  useEffect(() => {
+    if (!visibleCells) return;
+    setExplored((prev) => {
+      if ([...visibleCells].every((key) => prev.has(key))) return prev;
+      const newExplored = new Set(prev);
+      visibleCells.forEach((key) => newExplored.add(key));
+      return newExplored;
+    });
+  }, [visibleCells]);
+
+  /**
+   * 定义 应用一个迷宫（生成或导入的）并重置游戏状态的函数
+   */
+  const applyMazeData = useCallback((data: MazeData) => {
+    setMaze(data.maze);
+    setMazeMeta({
+      seed: data.seed,
+      algorithm: data.algorithm,
+      difficulty: data.difficulty,
+      preset: data.preset,
+      openings: data.openings,
+      entities: data.entities,
+    });
+    setStartPos(data.start);
+    setSolveStats(null);
+    // 有机关时最短路线需要考虑钥匙、金币等
+    const optimalPath = data.entities?.length
+      ? solveEntityMaze(data.maze, data.entities, data.start, data.end).path
+      : findShortestPath(data.maze, data.start, data.end);
+    setOptimalSteps(Math.max(0, optimalPath.length - 1));
+    setCollected(new Set());
+    setRunStats(createRunStats());
+    setVisitCounts(new Map([[`${data.start.x},${data.start.y}`, 1]]));
+    setUndoStack([]);
+    setRedoStack([]);
+    setExplored(new Set());
+    setPlayerPos(data.start); // 重置玩家位置到起点
+    setEndPos(data.end); // 设置终点位置
     setTrail(new Set());
+    setSearchMarks(new Map());
     setIfAutoMoving(false);
+    setAutoPaused(false);
     setAutoFinished(false);
     remainingAutoPathRef.current = [];
-    if (autoTimerRef.current) {
-      window.clearInterval(autoTimerRef.current);
-      autoTimerRef.current = null;
+    searchEventsRef.current = [];
+    setIfGenerating(false);
+    setGenHead(null);
+    setBranchCells(new Set());
+    genEventsRef.current = [];
+    setMoveLog([]);
+    setReplay(null);
+    setReplayPlaying(false);
+    travelPathRef.current = [];
+    setIfTraveling(false);
+    setHint(null);
+  }, []);
+
+  /**
+   * 定义 按种子生成迷宫数据的函数, 相同种子和难度总是得到相同的迷宫
+   * 传入 events 时记录生成事件；withEntities 为 false 时不放置机关（机关最后放置, 不影响迷宫本身, 只分析迷宫时跳过）
+   */
+  const buildMazeData = useCallback((mazeSeed: number, events?: GenerationEvent[], withEntities = true): MazeData => {
+    const generated = generateMazeGrid(MAZE_WIDTH, MAZE_HEIGHT, {
+      ...branchConfig,
+      algorithm,
+      endpoints: endpointMode,
+      entities: entitiesEnabled && withEntities ? levelConfig.entities : undefined,
+      random: createSeededRandom(mazeSeed),
+      events,
+    });
+    return {
+      ...generated,
+      seed: mazeSeed,
+      algorithm,
+      difficulty,
+      preset: customPreset?.name,
+    };
+  }, [MAZE_WIDTH, MAZE_HEIGHT, algorithm, endpointMode, entitiesEnabled, difficulty, customPreset?.name, levelConfig.entities, branchConfig.branches, branchConfig.branchMaxLength, branchConfig.braid]);
+
+  /**
+   * 定义 加载指定种子的迷宫的函数
+   * 开启生成动画时记录生成事件, 从全是墙的网格开始回放
+   */
+  const loadMaze = useCallback((mazeSeed: number) => {
+    const events: GenerationEvent[] | undefined = animateGeneration ? [] : undefined;
+    const data = buildMazeData(mazeSeed, events);
+    const newMaze = data.maze;
+    applyMazeData(data);
+    if (events) {
+      genTargetRef.current = newMaze;
+      genEventsRef.current = events;
+      genIndexRef.current = 0;
+      setMaze(newMaze.map((column) => column.map((): Cell => 0)));
+      setGenPaused(false);
+      setIfGenerating(true);
+    }
+  }, [buildMazeData, applyMazeData, animateGeneration]);
+
+  /**
+   * 定义 结束生成动画的函数（播放完毕或跳过）, 直接显示完整迷宫
+   */
+  const finishGeneration = useCallback(() => {
+    setMaze(genTargetRef.current);
+    genEventsRef.current = [];
+    setIfGenerating(false);
+    setGenHead(null);
+    setBranchCells(new Set());
+  }, []);
+
+  /**
+   * 定义 推进生成动画若干步的函数
+   */
+  const advanceGeneration = useCallback((count: number) => {
+    const events = genEventsRef.current;
+    const applied = events.slice(genIndexRef.current, genIndexRef.current + count);
+    genIndexRef.current += applied.length;
+    if (applied.length > 0) {
+      setMaze((prev) => {
+        // 只复制被修改的列
+        const newMaze = [...prev];
+        const copied = new Set<number>();
+        for (const { type, pos } of applied) {
+          if (type === GenerationEventType.HEAD) continue;
+          if (!copied.has(pos.x)) {
+            newMaze[pos.x] = [...newMaze[pos.x]];
+            copied.add(pos.x);
+          }
+          newMaze[pos.x][pos.y] = type === GenerationEventType.WALL ? 0 : 1;
+        }
+        return newMaze;
+      });
+      const heads = applied.filter((event) => event.type === GenerationEventType.HEAD);
+      if (heads.length > 0) setGenHead(heads[heads.length - 1].pos);
+      const branches = applied.filter((event) => event.type === GenerationEventType.BRANCH);
+      if (branches.length > 0) {
+        setBranchCells((prev) => {
+          const newCells = new Set(prev);
+          for (const { pos } of branches) {
+            newCells.add(`${pos.x},${pos.y}`);
+          }
+          return newCells;
+        });
+      }
+    }
+    if (genIndexRef.current >= events.length) {
+      finishGeneration();
     }
-  }, [MAZE_WIDTH, MAZE_HEIGHT]);
+  }, [finishGeneration]);
 
   /**
-   * 定义 检查是否可以移动到指定位置的函数， 返回布尔值
+   * 定义 使用新随机种子生成迷宫的函数
    */
-  const ifCanMove = useCallback(
-    (x: number, y: number): boolean => {
-      if (x < 0 || x >= MAZE_WIDTH - 1 || y < 0 || y >= MAZE_HEIGHT - 1) {
-        return false;
+  const generateMaze = useCallback(() => {
+    let seed = randomSeed();
+    let rerolls = 0;
+    // 自动重新生成：分析结果不在难度的目标区间（换算到当前算法和起终点位置）内时换一个种子, 最多尝试 REROLL_MAX_ATTEMPTS 次
+    // 自定义难度没有目标区间, 不重新生成
+    if (autoReroll && !customPreset) {
+      const band = getDifficultyBand(difficulty, algorithm, endpointMode);
+      while (rerolls < REROLL_MAX_ATTEMPTS - 1) {
+        const { maze: candidate, start, end } = buildMazeData(seed, undefined, false);
+        if (isWithinBand(analyzeMaze(candidate, start, end), band)) break;
+        seed = randomSeed();
+        rerolls++;
       }
-      // maze[x][y] 直接对应坐标 (x, y)
-      return maze[x]?.[y] === 1;
+    }
+    setRerollCount(rerolls);
+    loadMaze(seed);
+  }, [loadMaze, buildMazeData, autoReroll, customPreset, difficulty, algorithm, endpointMode]);
+
+  /**
+   * 定义 选择自定义难度的函数, 同时切换到预设的生成算法
+   */
+  const applyPreset = useCallback((preset: MazePreset) => {
+    setCustomPreset(preset);
+    setAlgorithm(preset.algorithm);
+  }, []);
+
+  /**
+   * 定义 保存并选择自定义难度的函数
+   */
+  const savePresetAndApply = useCallback(
+    (preset: MazePreset) => {
+      setPresets(savePreset(preset));
+      applyPreset(preset);
     },
-    [maze, MAZE_WIDTH, MAZE_HEIGHT]
+    [applyPreset]
   );
 
   /**
-   * 定义 根据方向移动玩家的函数
+   * 定义 删除自定义难度的函数, 删除正在使用的预设时回到内置难度
+   */
+  const removePreset = useCallback((id: string) => {
+    setPresets(deletePreset(id));
+    setCustomPreset((prev) => (prev?.id === id ? null : prev));
+  }, []);
+
+  /**
+   * 定义 加载玩家输入的种子的函数
+   */
+  const loadSeedInput = useCallback(() => {
+    const parsed = parseSeed(seedInput);
+    if (parsed === null) return;
+    if (isClassicMaze) loadMaze(parsed);
+    else setSideSeed(parsed);
+  }, [seedInput, loadMaze, isClassicMaze]);
+
+  /**
+   * 定义 生成新迷宫按钮的函数：单层方格以外的模式只换自己的种子, 不重新生成单层方格迷宫
+   */
+  const generateNew = useCallback(() => {
+    if (isClassicMaze) generateMaze();
+    else setSideSeed(randomSeed());
+  }, [isClassicMaze, generateMaze]);
+
+  /**
+   * 定义 根据方向移动玩家的函数, 同时记录足迹、撤销历史、步数、回头次数和用时
+   * 撤销 / 重做也是一次真实的移动, 同样计入步数和录像
+   * 能否移动由机关规则决定（没有机关时只看墙）, 走到钥匙或金币上时收集；走到敌人所在的格子时被抓住
    */
   const movePlayer = useCallback(
-    (direction: Direction) => {
-      if (ifAutoMoving) return;
-      setPlayerPos((prev) => {
-        let newX = prev.x;
-        let newY = prev.y;
-
-        switch (direction) {
-          case Direction.UP:
-            newY -= 1;
-            break;
-          case Direction.DOWN:
-            newY += 1;
-            break;
-          case Direction.LEFT:
-            newX -= 1;
-            break;
-          case Direction.RIGHT:
-            newX += 1;
-            break;
-        }
+    (direction: Direction, historyAction?: HistoryAction) => {
+      if (ifBusy || caughtAt !== null) return;
+      const next = getEntityMove(maze, entityIndex, playerPos, direction, collected);
+      if (!next) return;
+      const { x: newX, y: newY } = next;
+      setPlayerPos(next);
+      const newCollected = collectAt(entityIndex, next, collected);
+      setCollected(newCollected);
 
-        if (ifCanMove(newX, newY)) {
-          return { x: newX, y: newY };
-        }
-        return prev;
-      });
+      const key = `${newX},${newY}`;
+      const isBacktrack = visitCounts.has(key);
+      setVisitCounts((prev) => new Map(prev).set(key, (prev.get(key) ?? 0) + 1));
+      markDirty([key]);
+      if (!getDirectionBetween(playerPos, next)) {
+        // 传送后与之前的位置不相邻, 清空历史避免撤销到不相邻的格子
+        setUndoStack([]);
+        setRedoStack([]);
+      } else if (historyAction === 'undo') {
+        setUndoStack((prev) => prev.slice(0, -1));
+        setRedoStack((prev) => [...prev, playerPos]);
+      } else if (historyAction === 'redo') {
+        setRedoStack((prev) => prev.slice(0, -1));
+        setUndoStack((prev) => [...prev, playerPos]);
+      } else {
+        setUndoStack((prev) => [...prev, playerPos]);
+        setRedoStack([]);
+      }
+
+      const caught = isCaughtBy(enemies, next);
+      if (caught) setCaughtAt(Date.now());
+
+      // 到达终点后继续走动不再计入成绩
+      if (runStats.finishedAt !== null) return;
+      const timestamp = Date.now();
+      setMoveLog((prev) => [...prev, { direction, time: timestamp - (runStats.startedAt ?? timestamp) }]);
+      setRunStats((prev) => ({
+        ...prev,
+        startedAt: prev.startedAt ?? timestamp,
+        finishedAt:
+          newX === endPos.x && newY === endPos.y && hasAllCoins(entities, newCollected) && !caught ? timestamp : null,
+        moves: prev.moves + 1,
+        backtracks: prev.backtracks + (isBacktrack ? 1 : 0),
+      }));
+    },
+    [maze, entities, entityIndex, collected, enemies, caughtAt, ifBusy, playerPos, endPos, visitCounts, runStats.startedAt, runStats.finishedAt, markDirty]
+  );
+
+  /**
+   * 定义 撤销 / 重做一步的函数：朝撤销栈或重做栈顶部记录的位置走一步
+   */
+  const stepHistory = useCallback(
+    (action: HistoryAction) => {
+      const stack = action === 'undo' ? undoStack : redoStack;
+      const target = stack[stack.length - 1];
+      if (!target) return;
+      const direction = getDirectionBetween(playerPos, target);
+      if (direction) movePlayer(direction, action);
     },
-    [ifCanMove, ifAutoMoving]
+    [undoStack, redoStack, playerPos, movePlayer]
   );
 
   /**
-   * 调用 生成迷宫函数在初始化迷宫和难度改变时 
+   * 调用 生成迷宫函数在初始化迷宫和迷宫参数改变时
+   * 只在显示单层方格迷宫时生成：其他模式下改了参数, 切回来时再生成；只切换模式不重新生成
    */
+  const generatedWithRef = useRef<typeof generateMaze | null>(null);
   useEffect(() => {
+    if (!isClassicMaze) {
+      setSideSeed((prev) => prev ?? randomSeed());
+      return;
+    }
+    if (generatedWithRef.current === generateMaze) return;
+    generatedWithRef.current = generateMaze;
     generateMaze();
-  }, [generateMaze, difficulty]);
+  }, [isClassicMaze, generateMaze]);
+
+  /**
+   * 定义 开始 / 停止沿路线自动行进的函数（奔跑和点击寻路共用）
+   */
+  const startTravel = useCallback((path: Position[]) => {
+    travelPathRef.current = path;
+    setIfTraveling(path.length > 0);
+  }, []);
+
+  const cancelTravel = useCallback(() => {
+    travelPathRef.current = [];
+    setIfTraveling(false);
+  }, []);
+
+  /**
+   * 定义 按下 / 松开方向的函数, 键盘、屏幕方向键、滑动和手柄都通过它们操控玩家
+   * 按下时立即移动一次并记录方向, 由按住移动的定时器持续移动, 松开时停止
+   * 奔跑时（按住 Shift 或开启奔跑模式）沿走廊一直走到岔路口或死路
+   */
+  const pressDirection = useCallback(
+    (direction: Direction, run = false) => {
+      if (ifBusy) return;
+      cancelTravel();
+      activeHistoryRef.current = null;
+      if (run || alwaysRun) {
+        activeDirectionRef.current = null;
+        startTravel(getRunPath(maze, playerPos, direction, endPos));
+        return;
+      }
+      activeDirectionRef.current = direction;
+      movePlayer(direction);
+    },
+    [ifBusy, alwaysRun, maze, playerPos, endPos, movePlayer, startTravel, cancelTravel]
+  );
+
+  /**
+   * 定义 点击格子后寻路前往的函数
+   * 开启视野限制时只能前往已探索的格子, 并且只走已探索的路线
+   * 有机关时按当前拿着的钥匙规划路线（金币不作为必经点）, 被门或单向格挡住到不了的格子不前往
+   */
+  const travelTo = useCallback(
+    (target: Position) => {
+      if (ifBusy || maze[target.x]?.[target.y] !== 1) return;
+      activeDirectionRef.current = null;
+      activeHistoryRef.current = null;
+      const isKnown = (x: number, y: number) => !visibleCells || visibleCells.has(`${x},${y}`) || explored.has(`${x},${y}`);
+      if (!isKnown(target.x, target.y)) return;
+      const knownMaze = visibleCells
+        ? maze.map((column, x) => column.map((cell, y): Cell => (isKnown(x, y) ? cell : 0)))
+        : maze;
+      const path =
+        entities.length > 0
+          ? solveEntityMaze(
+              knownMaze,
+              entities.filter((entity) => entity.type !== EntityType.COIN),
+              playerPos,
+              target,
+              collected
+            ).path
+          : findShortestPath(knownMaze, playerPos, target);
+      startTravel(path.slice(1));
+    },
+    [ifBusy, maze, entities, collected, playerPos, visibleCells, explored, startTravel]
+  );
+
+  const releaseDirection = useCallback((direction: Direction) => {
+    // 仅当之前记录的按下的方向和现在松开的方向一致时，才停止持续移动
+    if (activeDirectionRef.current === direction) {
+      activeDirectionRef.current = null;
+    }
+  }, []);
 
   /**
    * 键盘操控玩家移动的主要过程
@@ -110,25 +626,38 @@ export default function MazeGame() {
     
     // 定义 处理键按下时调用movePlayer以移动的函数
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (ifAutoMoving) return;
-      const direction = keyToDirection(e.key);
+      // 非方格拓扑、多层迷宫和双人对战由各自的组件处理按键
+      if (ifBusy || !isClassicMaze) return;
+      // Z 撤销, Shift+Z 重做；按住时和方向键一样持续执行
+      if (e.code === 'KeyZ' && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        if (e.repeat) return;
+        const action: HistoryAction = e.shiftKey ? 'redo' : 'undo';
+        cancelTravel();
+        activeDirectionRef.current = null;
+        activeHistoryRef.current = action;
+        stepHistory(action);
+        return;
+      }
+      const direction = keyToDirection(e.key, keyBindings);
       if (!direction) return;
       e.preventDefault();  //防止你的方向键去上下滚动网页， 只对游戏进行操作
-      // 记录按下的方向并立即移动一次，避免键盘重复的起始延迟
-      activeDirectionRef.current = direction;
-      movePlayer(direction);
+      // 记录按下的方向并立即移动一次，避免键盘重复的起始延迟；按住 Shift 时奔跑
+      if (e.repeat && e.shiftKey) return;
+      pressDirection(direction, e.shiftKey);
     };
 
     // 定义 处理键盘回弹后的移动停止的函数
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (ifAutoMoving) return;
-      const direction = keyToDirection(e.key);
+      if (ifBusy || !isClassicMaze) return;
+      if (e.code === 'KeyZ') {
+        activeHistoryRef.current = null;
+        return;
+      }
+      const direction = keyToDirection(e.key, keyBindings);
       if (!direction) return;
       e.preventDefault();
-      // 仅当之前记录的按下的方向和现在抬起的方向一致时，才停止持续移动
-      if (activeDirectionRef.current === direction) {
-        activeDirectionRef.current = null; //清空记录值， 准备下一次的按下记录
-      }
+      releaseDirection(direction);
     };
     //监听键盘变化， 使用对应的处理函数 
     window.addEventListener('keydown', handleKeyDown);
@@ -137,98 +666,621 @@ export default function MazeGame() {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [movePlayer]);
+  }, [pressDirection, releaseDirection, stepHistory, cancelTravel, keyBindings, isClassicMaze]);
 
   /**
-   * 负责实现按住方向键持续移动
+   * 触屏滑动：滑动超过一定距离时按下对应方向, 手指不离开屏幕就持续移动
+   * 每次换向后以当前位置为新的起点, 方便连续转弯；抬起手指时停止
+   */
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    swipeRef.current = { x: touch.clientX, y: touch.clientY, direction: null };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const swipe = swipeRef.current;
+    if (!swipe) return;
+    const touch = e.touches[0];
+    const direction = getSwipeDirection(touch.clientX - swipe.x, touch.clientY - swipe.y, SWIPE_MIN_DISTANCE);
+    if (!direction) return;
+    if (direction !== swipe.direction) {
+      if (swipe.direction) releaseDirection(swipe.direction);
+      pressDirection(direction);
+    }
+    swipeRef.current = { x: touch.clientX, y: touch.clientY, direction };
+  };
+
+  const handleTouchEnd = () => {
+    const swipe = swipeRef.current;
+    if (swipe?.direction) releaseDirection(swipe.direction);
+    swipeRef.current = null;
+  };
+
+  /**
+   * 手柄：监听连接状态, 连接后每帧读取十字键和左摇杆, 方向变化时按下 / 松开
    */
   useEffect(() => {
-    const interval = window.setInterval(() => {
-      const direction = activeDirectionRef.current;
-      if (direction && !ifAutoMoving) {
-        movePlayer(direction);
-      }
-    }, MOVE_INTERVAL_MS);
+    const updateConnected = () => {
+      setGamepadConnected(Array.from(navigator.getGamepads?.() ?? []).some((gamepad) => gamepad !== null));
+    };
+    updateConnected();
+    window.addEventListener('gamepadconnected', updateConnected);
+    window.addEventListener('gamepaddisconnected', updateConnected);
+    return () => {
+      window.removeEventListener('gamepadconnected', updateConnected);
+      window.removeEventListener('gamepaddisconnected', updateConnected);
+    };
+  }, []);
 
+  useEffect(() => {
+    if (!gamepadConnected) return;
+    let frame = 0;
+    const poll = () => {
+      let direction: Direction | null = null;
+      for (const gamepad of Array.from(navigator.getGamepads())) {
+        if (!gamepad) continue;
+        direction = getGamepadDirection(gamepad, GAMEPAD_DEADZONE);
+        if (direction) break;
+      }
+      const previous = gamepadDirectionRef.current;
+      if (direction !== previous) {
+        if (previous) releaseDirection(previous);
+        if (direction) pressDirection(direction);
+        gamepadDirectionRef.current = direction;
+      }
+      frame = window.requestAnimationFrame(poll);
+    };
+    frame = window.requestAnimationFrame(poll);
     return () => {
-      window.clearInterval(interval);
+      window.cancelAnimationFrame(frame);
     };
-  }, [movePlayer, MOVE_INTERVAL_MS, ifAutoMoving]);
+  }, [gamepadConnected, pressDirection, releaseDirection]);
+
+  /**
+   * 定义 修改键位的函数, 修改后保存到本地
+   */
+  const updateKeyBindings = useCallback((bindings: KeyBindings) => {
+    setKeyBindings(bindings);
+    saveSettings({ keyBindings: bindings });
+  }, []);
+
+  /**
+   * 分析当前迷宫（生成动画结束后）
+   */
+  const analysis = useMemo<MazeAnalysis | null>(
+    () => (ifGenerating || maze.length === 0 ? null : analyzeMaze(maze, startPos, endPos)),
+    [ifGenerating, maze, startPos, endPos]
+  );
+  // 当前迷宫的目标区间, 换算到迷宫的生成算法和当前的起终点位置；自定义难度没有目标区间
+  const analysisBand = useMemo(
+    () =>
+      mazeMeta.preset !== undefined
+        ? undefined
+        : getDifficultyBand(mazeMeta.difficulty ?? difficulty, mazeMeta.algorithm ?? algorithm, endpointMode),
+    [mazeMeta.preset, mazeMeta.difficulty, mazeMeta.algorithm, difficulty, algorithm, endpointMode]
+  );
+
+  /**
+   * 提示：每局可用次数由难度决定, 每次使用按提示类型扣分
+   */
+  const hintsLeft = Math.max(0, mazeConfig.hints - runStats.hintsUsed);
+  const hintCells = useMemo(() => new Set(hint?.cells.map((pos) => `${pos.x},${pos.y}`)), [hint]);
+
+  /**
+   * 定义 使用一次提示的函数
+   */
+  const requestHint = useCallback(() => {
+    if (ifBusy || hintsLeft === 0 || runStats.finishedAt !== null) return;
+    const newHint = getHint(maze, playerPos, endPos, hintType, mazeConfig.hintLength, entities, collected);
+    if (!newHint) return;
+    setHint(newHint);
+    setRunStats((prev) => ({
+      ...prev,
+      hintsUsed: prev.hintsUsed + 1,
+      hintPenalty: prev.hintPenalty + HINT_CONFIG[hintType].penalty,
+    }));
+  }, [ifBusy, hintsLeft, runStats.finishedAt, maze, entities, collected, playerPos, endPos, hintType, mazeConfig.hintLength]);
 
   /**
    * 定义 开始自动通关的函数
+   * 有机关时改用考虑钥匙和金币的状态空间搜索, 不回放搜索过程
    */
   const startAutoSolve = useCallback(() => {
-    if (ifAutoMoving) return;
-    const path = findShortestPath(maze, playerPos, endPos);
-    if (path.length === 0) return;
+    if (ifBusy || caughtAt !== null) return;
+    const { path, visited, events } =
+      entities.length > 0
+        ? { ...solveEntityMaze(maze, entities, playerPos, endPos, collected), events: [] }
+        : MAZE_SOLVERS[solver](maze, playerPos, endPos);
+    setSolveStats({ solver, visited: visited.length, path: path.length });
+    setRunStats((prev) => ({ ...prev, autoSolved: true }));
+    // 自动通关会跳过撤销历史直接移动, 清空历史避免撤销到不相邻的格子
+    setUndoStack([]);
+    setRedoStack([]);
+    // 可视化模式下先回放搜索过程, 再沿最终路线移动
+    searchEventsRef.current = visualizeSearch ? events : [];
+    searchIndexRef.current = 0;
+    setSearchMarks((prev) => {
+      markDirty(prev.keys());
+      return new Map();
+    });
+    if (path.length === 0 && !visualizeSearch) return;
     // 第一格是当前位置，后续为行进路径
     remainingAutoPathRef.current = path.slice(1);
-    setTrail(new Set([`${playerPos.x},${playerPos.y}`]));
+    const startKey = `${playerPos.x},${playerPos.y}`;
+    setTrail((prev) => {
+      markDirty(prev);
+      markDirty([startKey]);
+      return new Set([startKey]);
+    });
     setAutoFinished(false);
+    setAutoPaused(false);
     setIfAutoMoving(true);
-  }, [maze, playerPos, endPos, ifAutoMoving]);
+  }, [maze, entities, collected, playerPos, endPos, ifBusy, caughtAt, solver, visualizeSearch, markDirty]);
 
   /**
-   * 自动通关时每隔AUTO_MOVE_MS进行一次移动
+   * 定义 推进自动通关若干步的函数：先回放搜索事件, 再沿路线移动
    */
-  useEffect(() => {
-    if (!ifAutoMoving) {
-      if (autoTimerRef.current) {
-        window.clearInterval(autoTimerRef.current);
-        autoTimerRef.current = null;
-      }
-      return;
+  const advanceAuto = useCallback((count: number) => {
+    const events = searchEventsRef.current;
+    const applied: SearchEvent[] = [];
+    while (count > 0 && searchIndexRef.current < events.length) {
+      applied.push(events[searchIndexRef.current++]);
+      count--;
     }
-
-    autoTimerRef.current = window.setInterval(() => {
-      const next = remainingAutoPathRef.current.shift();
-      if (!next) {
-        setIfAutoMoving(false);
-        setAutoFinished(true);
-        if (autoTimerRef.current) {
-          window.clearInterval(autoTimerRef.current);
-          autoTimerRef.current = null;
+    if (applied.length > 0) {
+      setSearchMarks((prev) => {
+        const newMarks = new Map(prev);
+        for (const event of applied) {
+          newMarks.set(`${event.pos.x},${event.pos.y}`, event.type);
         }
-        return;
-      }
-
-      setPlayerPos(next);     //用next进行移动
-      setTrail((prev) => {
-        const newTrail = new Set(prev);
-        newTrail.add(`${next.x},${next.y}`);
-        return newTrail;
+        return newMarks;
       });
-    }, AUTO_MOVE_MS);
+      markDirty(applied.map(({ pos }) => `${pos.x},${pos.y}`));
+    }
+    if (count === 0) return;
 
-    return () => {
-      if (autoTimerRef.current) {
-        window.clearInterval(autoTimerRef.current);
-        autoTimerRef.current = null;
+    const steps = remainingAutoPathRef.current.splice(0, count);
+    if (steps.length === 0) {
+      setRunStats((prev) => ({ ...prev, finishedAt: prev.finishedAt ?? Date.now() }));
+      setIfAutoMoving(false);
+      setAutoPaused(false);
+      setAutoFinished(true);
+      return;
+    }
+    setPlayerPos(steps[steps.length - 1]);     //用最后一步进行移动
+    setCollected((prev) => steps.reduce((acc, step) => collectAt(entityIndex, step, acc), prev));
+    setTrail((prev) => {
+      const newTrail = new Set(prev);
+      for (const step of steps) {
+        newTrail.add(`${step.x},${step.y}`);
       }
-    };
-  }, [ifAutoMoving, AUTO_MOVE_MS]);
+      return newTrail;
+    });
+    markDirty(steps.map((step) => `${step.x},${step.y}`));
+  }, [entityIndex, markDirty]);
+
+  /**
+   * 定义 重新放置敌人的函数, 每局开始时调用；按迷宫种子放置, 相同种子的敌人位置和巡逻路线相同
+   */
+  const resetEnemies = useCallback(() => {
+    setCaughtAt(null);
+    if (!enemiesEnabled || ifGenerating || maze.length === 0) {
+      setEnemies([]);
+      return;
+    }
+    enemyRandomRef.current = createSeededRandom(mazeMeta.seed ?? randomSeed());
+    setEnemies(spawnEnemies(maze, startPos, endPos, enemyConfig.count, enemyRandomRef.current));
+  }, [enemiesEnabled, enemyConfig.count, ifGenerating, maze, startPos, endPos, mazeMeta.seed]);
+
+  /**
+   * 加载新迷宫、生成动画结束或修改敌人设置时重新放置敌人
+   */
+  useEffect(() => {
+    resetEnemies();
+  }, [resetEnemies]);
 
   /**
    * 定义 重新挑战：清空轨迹并回到起点的函数
    */
   const retryMaze = useCallback(() => {
+    resetEnemies();
     setAutoFinished(false);
     setIfAutoMoving(false);
-    setTrail(new Set());
-    setPlayerPos({ x: 1, y: 1 });
+    setAutoPaused(false);
+    // 清空的轨迹、搜索标记、足迹和已探索区域都需要重画
+    setTrail((prev) => {
+      markDirty(prev);
+      return new Set();
+    });
+    setSearchMarks((prev) => {
+      markDirty(prev.keys());
+      return new Map();
+    });
+    setPlayerPos(startPos);
+    setCollected(new Set());
+    setHint(null);
+    cancelTravel();
+    setRunStats(createRunStats());
+    setMoveLog([]);
+    setVisitCounts((prev) => {
+      markDirty(prev.keys());
+      return new Map([[`${startPos.x},${startPos.y}`, 1]]);
+    });
+    setUndoStack([]);
+    setRedoStack([]);
+    setExplored((prev) => {
+      markDirty(prev);
+      return new Set();
+    });
     remainingAutoPathRef.current = [];
-    if (autoTimerRef.current) {
-      window.clearInterval(autoTimerRef.current);
-      autoTimerRef.current = null;
+    searchEventsRef.current = [];
+  }, [startPos, cancelTravel, resetEnemies, markDirty]);
+
+  /**
+   * 定义 把录像跳到第 index 步的函数：玩家移到对应位置, 轨迹显示已走过的路线
+   */
+  const seekReplay = useCallback(
+    (index: number) => {
+      if (!replay) return;
+      // 轨迹是前 index 步走过的格子, 只有新旧两个位置之间的格子需要重画
+      const from = Math.min(index, replayIndexRef.current);
+      const to = Math.max(index, replayIndexRef.current);
+      markDirty(replay.positions.slice(from, to + 1).map((pos) => `${pos.x},${pos.y}`));
+      replayIndexRef.current = index;
+      replayClockRef.current = index > 0 ? replay.moves[index - 1].time : 0;
+      setReplayIndex(index);
+      setPlayerPos(replay.positions[index]);
+      setTrail(new Set(replay.positions.slice(0, index + 1).map((pos) => `${pos.x},${pos.y}`)));
+    },
+    [replay, markDirty]
+  );
+
+  /**
+   * 定义 开始观看录像的函数；导入的录像属于其他迷宫时先加载该迷宫
+   */
+  const watchReplay = useCallback(
+    (target: Replay) => {
+      const isCurrentMaze = target.moves === moveLog;
+      if (!isCurrentMaze) applyMazeData(target.data);
+      replayReturnPosRef.current = isCurrentMaze ? playerPos : target.data.start;
+      const positions = getReplayPositions(target.data.maze, target.data.start, target.moves, target.data.entities);
+      replayIndexRef.current = 0;
+      replayClockRef.current = 0;
+      setReplay({ moves: target.moves, positions });
+      setReplayIndex(0);
+      setPlayerPos(positions[0]);
+      setTrail((prev) => {
+        markDirty(prev);
+        return new Set();
+      });
+      setReplayPlaying(true);
+    },
+    [moveLog, playerPos, applyMazeData, markDirty]
+  );
+
+  /**
+   * 定义 退出回放的函数, 玩家回到观看录像前的位置
+   */
+  const exitReplay = useCallback(() => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setTrail((prev) => {
+      markDirty(prev);
+      return new Set();
+    });
+    setPlayerPos(replayReturnPosRef.current);
+  }, [markDirty]);
+
+  /**
+   * 录像播完后再次播放时从头开始
+   */
+  useEffect(() => {
+    if (replay && replayPlaying && replayIndexRef.current >= replay.moves.length) seekReplay(0);
+  }, [replay, replayPlaying, seekReplay]);
+
+  /**
+   * 检查是否到达终点（有金币时需要先集齐, 被抓住时不算）
+   */
+  const isWin =
+    playerPos.x === endPos.x && playerPos.y === endPos.y && hasAllCoins(entities, collected) && caughtAt === null;
+  const timerRunning = runStats.startedAt !== null && runStats.finishedAt === null && caughtAt === null;
+
+  /**
+   * 定义 玩家被敌人抓住的函数：本局失败, 停止所有移动
+   */
+  const catchPlayer = useCallback(() => {
+    setCaughtAt(Date.now());
+    activeDirectionRef.current = null;
+    activeHistoryRef.current = null;
+    cancelTravel();
+  }, [cancelTravel]);
+
+  /**
+   * 游戏循环的各个系统, 每次渲染后更新, 循环中总是使用最新的状态
+   * 生成动画、自动通关按速度推进, 速度超过帧率时每帧推进多步；沿路线行进和按住移动每次只走一步
+   * 敌人在玩家走出第一步后开始行动, 自动通关、回放、通关或被抓住后停止
+   */
+  const systemsRef = useRef<Record<string, LoopSystem>>({});
+  useEffect(() => {
+    systemsRef.current = {
+      generation: {
+        interval: ifGenerating && !genPaused ? 1000 / genSpeed : null,
+        run: advanceGeneration,
+      },
+      autoSolve: {
+        interval: ifAutoMoving && !autoPaused ? 1000 / autoSpeed : null,
+        run: advanceAuto,
+      },
+      // 录像回放：按录像中的时间间隔（乘以倍速）推进
+      replay: {
+        interval: replay && replayPlaying ? GAME_TICK_MS : null,
+        run: (_, elapsed) => {
+          if (!replay) return;
+          replayClockRef.current += elapsed * replaySpeed;
+          let index = replayIndexRef.current;
+          while (index < replay.moves.length && replay.moves[index].time <= replayClockRef.current) {
+            index++;
+          }
+          if (index !== replayIndexRef.current) {
+            const clock = replayClockRef.current;
+            seekReplay(index);
+            replayClockRef.current = clock;
+          }
+          if (index >= replay.moves.length) setReplayPlaying(false);
+        },
+      },
+      // 沿路线行进：每一步都经过 movePlayer, 照常计入步数和录像
+      travel: {
+        interval: ifTraveling ? 1000 / travelSpeed : null,
+        run: () => {
+          const next = travelPathRef.current[0];
+          // 按机关规则查找方向, 路线经过传送门时相邻两格不相连
+          const direction =
+            next && !ifBusy ? getEntityDirection(maze, entityIndex, playerPos, next, collected) : null;
+          if (!direction) {
+            cancelTravel();
+            return;
+          }
+          travelPathRef.current = travelPathRef.current.slice(1);
+          movePlayer(direction);
+          if (travelPathRef.current.length === 0) setIfTraveling(false);
+        },
+      },
+      // 按住方向键（或撤销 / 重做键）持续移动
+      hold: {
+        interval: MOVE_INTERVAL_MS,
+        run: () => {
+          if (ifBusy) return;
+          const historyAction = activeHistoryRef.current;
+          const direction = activeDirectionRef.current;
+          if (historyAction) {
+            stepHistory(historyAction);
+          } else if (direction) {
+            movePlayer(direction);
+          }
+        },
+      },
+      // 计时进行中时刷新当前时间, 让用时实时显示
+      timer: {
+        interval: timerRunning ? 100 : null,
+        run: () => setNow(Date.now()),
+      },
+      enemies: {
+        interval:
+          enemies.length > 0 && !ifBusy && !isWin && caughtAt === null && runStats.startedAt !== null
+            ? 1000 / enemyConfig.speed
+            : null,
+        run: () => {
+          const moved = enemies.map((enemy) =>
+            stepEnemy(maze, enemy, playerPos, enemyConfig.vision, enemyRandomRef.current)
+          );
+          setEnemies(moved);
+          if (isCaughtBy(moved, playerPos)) catchPlayer();
+        },
+      },
+    };
+  });
+
+  /**
+   * 游戏循环：固定间隔推进一帧, 由各系统按自己的间隔决定这一帧走几步
+   */
+  useEffect(() => startGameLoop(() => systemsRef.current), []);
+  const showCompletionActions = autoFinished || isWin;
+
+  /**
+   * 首次加载时读取本地保存的难度、键位和游戏记录
+   */
+  useEffect(() => {
+    const { difficulty: savedDifficulty } = loadSettings();
+    if (savedDifficulty && Object.values(Difficulty).includes(savedDifficulty)) {
+      setDifficulty(savedDifficulty);
+      setAlgorithm(DIFFICULTY_CONFIG[savedDifficulty].algorithm);
     }
+    setHistory(loadRunHistory());
+    setKeyBindings(loadKeyBindings());
+    setPresets(loadPresets());
   }, []);
 
   /**
-   * 检查是否到达终点
+   * 到达终点时保存本局记录（每局只保存一次, 以结束时间区分）
    */
-  const isWin = playerPos.x === endPos.x && playerPos.y === endPos.y;
-  const showCompletionActions = autoFinished || isWin;
+  const recordedRunRef = useRef<number | null>(null);
+  useEffect(() => {
+    const { finishedAt } = runStats;
+    if (!isWin || finishedAt === null || recordedRunRef.current === finishedAt) return;
+    recordedRunRef.current = finishedAt;
+    const efficiency = runStats.autoSolved ? 0 : calculateEfficiency(optimalSteps, runStats.moves);
+    setHistory(
+      saveRunRecord({
+        id: `${finishedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        finishedAt,
+        difficulty: mazeMeta.difficulty ?? difficulty,
+        preset: mazeMeta.preset,
+        seed: mazeMeta.seed,
+        algorithm: mazeMeta.algorithm,
+        code: encodeMazeCode({ maze, start: startPos, end: endPos, openings: mazeMeta.openings, entities }),
+        time: getElapsedMs(runStats, finishedAt),
+        moves: runStats.moves,
+        backtracks: runStats.backtracks,
+        optimalSteps,
+        efficiency,
+        autoSolved: runStats.autoSolved,
+        hintsUsed: runStats.hintsUsed,
+        hintPenalty: runStats.hintPenalty,
+        score: runStats.autoSolved ? 0 : calculateScore(efficiency, runStats.hintPenalty),
+      })
+    );
+  }, [isWin, runStats, mazeMeta, entities, difficulty, maze, startPos, endPos, optimalSteps]);
+
+  /**
+   * 定义 重玩历史记录中迷宫的函数
+   */
+  const replayRecord = useCallback(
+    (record: RunRecord) => {
+      applyMazeData({
+        ...decodeMazeCode(record.code),
+        seed: record.seed,
+        algorithm: record.algorithm,
+        difficulty: record.difficulty,
+        preset: record.preset,
+      });
+    },
+    [applyMazeData]
+  );
+
+  /**
+   * 定义 清空游戏记录的函数
+   */
+  const clearHistory = useCallback(() => {
+    clearRunHistory();
+    setHistory([]);
+  }, []);
+
+  // 视野限制下, 终点被看到过才显示
+  const endKey = `${endPos.x},${endPos.y}`;
+  const endRevealed = !visibleCells || visibleCells.has(endKey) || explored.has(endKey);
+  const openingKeys = useMemo(
+    () => new Set((mazeMeta.openings ?? []).map((pos) => `${pos.x},${pos.y}`)),
+    [mazeMeta.openings]
+  );
+
+  // 回放录像时按录像进度计算已收集的物品, 门的开关和物品的显示与录像一致
+  const shownCollected = useMemo(
+    () =>
+      replay
+        ? replay.positions
+            .slice(0, replayIndex + 1)
+            .reduce((acc, pos) => collectAt(entityIndex, pos, acc), new Set<string>())
+        : collected,
+    [replay, replayIndex, collected, entityIndex]
+  );
+  const heldColors = useMemo(
+    () =>
+      new Set(
+        [...shownCollected].flatMap((key) => {
+          const entity = entityIndex.get(key);
+          return entity?.type === EntityType.KEY ? [entity.color] : [];
+        })
+      ),
+    [shownCollected, entityIndex]
+  );
+  const coinCount = countCoins(entities, shownCollected);
+
+  // 机关标记：门画成格子颜色, 已收集的钥匙和金币不再显示；视野限制下只显示看到过的机关
+  // 敌人只在当前视野内显示, 回放录像时不显示
+  const enemyMarkers: MazeMarker[] =
+    replay === null
+      ? enemies
+          .filter(({ pos }) => !visibleCells || visibleCells.has(`${pos.x},${pos.y}`))
+          .map(({ pos, mode }) => ({
+            pos,
+            color: mode === EnemyMode.CHASE ? CELL_COLORS.enemyChase : CELL_COLORS.enemyPatrol,
+          }))
+      : [];
+  const entityMarkers = entities.flatMap((entity): MazeMarker[] => {
+    const key = entityKey(entity.pos);
+    if (visibleCells && !visibleCells.has(key) && !explored.has(key)) return [];
+    switch (entity.type) {
+      case EntityType.KEY:
+        return shownCollected.has(key) ? [] : [{ pos: entity.pos, color: KEY_COLOR_CONFIG[entity.color].color, label: 'K' }];
+      case EntityType.COIN:
+        return shownCollected.has(key) ? [] : [{ pos: entity.pos, color: CELL_COLORS.coin }];
+      case EntityType.TELEPORTER:
+        return [{ pos: entity.pos, color: CELL_COLORS.teleporter, label: '◎' }];
+      case EntityType.ONE_WAY:
+        return [{ pos: entity.pos, color: CELL_COLORS.oneWay, label: DIRECTION_ARROWS[entity.direction] }];
+      default:
+        return [];
+    }
+  });
+
+  /**
+   * 由状态推导出的格子（视野、提示、生成器位置、锁着的门）变化时记录新旧格子, 画布只重画这些格子
+   */
+  const genHeadKeys = useMemo(() => (genHead ? [`${genHead.x},${genHead.y}`] : null), [genHead]);
+  const lockedDoorKeys = useMemo(
+    () =>
+      entities.flatMap((entity) =>
+        entity.type === EntityType.DOOR && !heldColors.has(entity.color) ? [entityKey(entity.pos)] : []
+      ),
+    [entities, heldColors]
+  );
+  useDirtyOnChange(markDirty, visibleCells);
+  useDirtyOnChange(markDirty, hintCells);
+  useDirtyOnChange(markDirty, genHeadKeys);
+  useDirtyOnChange(markDirty, lockedDoorKeys);
+
+  // 迷宫本身（包括生成动画的每一帧）、视野模式或热力图显示变化时, 画布逐格比较全部格子
+  const fullRedrawKey = useMemo(
+    () => ({ maze, fog: fogActive ? visibility : null, heatmap: showHeatmap && replay === null }),
+    [maze, fogActive, visibility, showHeatmap, replay]
+  );
+
+  /**
+   * 定义 计算格子颜色的函数, 交给画布比较, 只重画变化的格子；依赖不变时保持同一个函数, 画布不必重新比较格子
+   * 开启视野限制时, 看不到的格子显示为迷雾或已探索的暗色（提示的格子除外）
+   * 优先级：生成器位置 > 提示 > 墙 > 锁着的门 > 额外分支 > 轨迹 > 搜索边界 > 已搜索 > 手动足迹热力图 > 普通路
+   */
+  const getCellColor = useCallback(
+    (x: number, y: number) => {
+      if (genHead?.x === x && genHead?.y === y) return CELL_COLORS.genHead;
+      const key = `${x},${y}`;
+      if (hintCells.has(key)) return CELL_COLORS.hint;
+      // 外墙出入口只显示为路, 不可通行
+      const isWall = (maze[x]?.[y] ?? 0) === 0 && !openingKeys.has(key);
+      if (visibleCells && !visibleCells.has(key)) {
+        if (!explored.has(key)) return CELL_COLORS.fog;
+        return isWall ? CELL_COLORS.exploredWall : CELL_COLORS.exploredPath;
+      }
+      if (isWall) return CELL_COLORS.wall;
+      const entity = entityIndex.get(key);
+      if (entity?.type === EntityType.DOOR && !heldColors.has(entity.color)) return KEY_COLOR_CONFIG[entity.color].color;
+      if (branchCells.has(key)) return CELL_COLORS.branch;
+      if (trail.has(key)) return CELL_COLORS.trail;
+      const searchMark = searchMarks.get(key);
+      if (searchMark === SearchEventType.FRONTIER) return CELL_COLORS.frontier;
+      if (searchMark === SearchEventType.VISIT) return CELL_COLORS.visited;
+      const visits = showHeatmap && replay === null ? visitCounts.get(key) ?? 0 : 0;
+      if (visits > 0) return HEATMAP_COLORS[Math.min(visits, HEATMAP_COLORS.length) - 1];
+      return CELL_COLORS.path;
+    },
+    [
+      genHead,
+      hintCells,
+      maze,
+      openingKeys,
+      visibleCells,
+      explored,
+      entityIndex,
+      heldColors,
+      branchCells,
+      trail,
+      searchMarks,
+      showHeatmap,
+      replay,
+      visitCounts,
+    ]
+  );
 
   return (
     <div className="flex flex-col items-center gap-6 p-8 bg-gray-50 opacity-85 border-2">
@@ -252,9 +1304,14 @@ export default function MazeGame() {
             return (
               <button
                 key={diff}
-                onClick={() => setDifficulty(diff)}
+                onClick={() => {
+                  setDifficulty(diff);
+                  setAlgorithm(config.algorithm); // 切换难度时使用该难度配置的算法
+                  setCustomPreset(null);
+                  saveSettings({ difficulty: diff });
+                }}
                 className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                  isSelected
+                  isSelected && customPreset === null
                     ? 'bg-blue-600 text-white shadow-lg scale-105'
                     : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
                 }`}
@@ -263,15 +1320,47 @@ export default function MazeGame() {
               </button>
             );
           })}
+          {presets.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => applyPreset(preset)}
+              className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                customPreset?.id === preset.id
+                  ? 'bg-blue-600 text-white shadow-lg scale-105'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {preset.name}
+            </button>
+          ))}
         </div>
         <div className="text-xs text-gray-500 dark:text-gray-400">
-          {DIFFICULTY_CONFIG[difficulty].description} ({mazeSize}x{mazeSize})
+          {customPreset === null ? DIFFICULTY_CONFIG[difficulty].description : `自定义：${customPreset.name}`} ({MAZE_WIDTH}x{MAZE_HEIGHT}
+          {branchConfig.braid > 0 && `，环路 ${Math.round(branchConfig.braid * 100)}%`})
         </div>
+        {/* 自定义难度 */}
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700 dark:text-gray-300">自定义难度</summary>
+          <PresetEditor
+            current={{
+              width: MAZE_WIDTH,
+              height: MAZE_HEIGHT,
+              branches: branchConfig.branches,
+              branchMaxLength: branchConfig.branchMaxLength,
+              algorithm,
+            }}
+            presets={presets}
+            disabled={ifBusy}
+            onApply={applyPreset}
+            onSave={savePresetAndApply}
+            onDelete={removePreset}
+          />
+        </details>
       </div>
 
       {/* 生成新迷宫按钮 */}
       <button
-        onClick={generateMaze}
+        onClick={generateNew}
         className="h-12 flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors shadow-lg disabled:opacity-60 disabled:cursor-not-allowed"
         disabled={ifAutoMoving}
       >
@@ -279,84 +1368,490 @@ export default function MazeGame() {
       </button>
       </div>
 
-      {/* 一键通关 */}
-      <button
-        onClick={startAutoSolve}
-        className="px-6 py-3 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg font-medium transition-colors shadow-lg disabled:opacity-60 disabled:cursor-not-allowed"
-        disabled={ifAutoMoving}
-      >
-        一键通关
-      </button>
+      {/* 生成算法选择 */}
+      <div className="flex items-center gap-2 text-sm">
+        <label htmlFor="maze-algorithm" className="text-gray-700 dark:text-gray-300">
+          生成算法：
+        </label>
+        <select
+          id="maze-algorithm"
+          value={algorithm}
+          onChange={(e) => setAlgorithm(e.target.value as MazeAlgorithm)}
+          disabled={ifBusy}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(ALGORITHM_CONFIG) as MazeAlgorithm[]).map((algo) => (
+            <option key={algo} value={algo}>
+              {ALGORITHM_CONFIG[algo].label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {ALGORITHM_CONFIG[algorithm].description}
+        </span>
+      </div>
 
-      {/* 通关后的操作：自动通关或手动通关后都显示 */}
-      {showCompletionActions && (
-        <div className="flex gap-3 mt-2">
-          <button
-            onClick={retryMaze}
-            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
-          >
-            重新挑战
-          </button>
-          <button
-            onClick={generateMaze}
-            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium"
-          >
-            下一关
-          </button>
-        </div>
-      )}
+      <MazeModeSelector
+        topology={topology}
+        levels={levels}
+        versus={versus}
+        disabled={ifBusy}
+        onTopologyChange={setTopology}
+        onLevelsChange={setLevels}
+        onVersusChange={setVersus}
+      />
 
-      {/* 胜利提示 */}
-      {isWin && (
-        <div className="text-2xl font-bold text-green-600 dark:text-green-400 animate-pulse">
-          恭喜！你到达了终点！🎉
-        </div>
+      {isClassicMaze && (
+        <>
+          {/* 起终点位置 */}
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="maze-endpoints" className="text-gray-700 dark:text-gray-300">
+              起终点：
+            </label>
+            <select
+              id="maze-endpoints"
+              value={endpointMode}
+              onChange={(e) => setEndpointMode(e.target.value as EndpointMode)}
+              disabled={ifBusy}
+              className="px-2 py-1 border rounded"
+            >
+              {(Object.keys(ENDPOINT_CONFIG) as EndpointMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {ENDPOINT_CONFIG[mode].label}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {ENDPOINT_CONFIG[endpointMode].description}
+            </span>
+          </div>
+
+          {/* 机关：钥匙和门、金币、传送门、单向格, 数量由难度决定 */}
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={entitiesEnabled}
+                onChange={(e) => setEntitiesEnabled(e.target.checked)}
+                disabled={ifBusy}
+              />
+              机关
+            </label>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {entitiesEnabled
+                ? 'K 钥匙打开同色的门，集齐金币后终点才开放，◎ 传送门，箭头为单向格'
+                : '开启后迷宫中会出现钥匙、门、金币、传送门和单向格'}
+            </span>
+          </div>
+
+          {/* 敌人：在附近巡逻, 玩家进入视野后沿最短路线追赶, 被抓住即失败 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={enemiesEnabled}
+                onChange={(e) => setEnemiesEnabled(e.target.checked)}
+                disabled={ifBusy}
+              />
+              敌人
+            </label>
+            {enemiesEnabled && (
+              <>
+                <label htmlFor="enemy-count" className="text-gray-700 dark:text-gray-300">
+                  数量
+                </label>
+                <select
+                  id="enemy-count"
+                  value={enemyConfig.count}
+                  onChange={(e) => setEnemyConfig((prev) => ({ ...prev, count: Number(e.target.value) }))}
+                  disabled={ifBusy}
+                  className="px-2 py-1 border rounded"
+                >
+                  {Array.from({ length: ENEMY_COUNT_MAX }, (_, i) => i + 1).map((count) => (
+                    <option key={count} value={count}>
+                      {count}
+                    </option>
+                  ))}
+                </select>
+                <label htmlFor="enemy-speed" className="text-gray-700 dark:text-gray-300">
+                  速度
+                </label>
+                <input
+                  id="enemy-speed"
+                  type="range"
+                  min={ENEMY_SPEED_MIN}
+                  max={ENEMY_SPEED_MAX}
+                  value={enemyConfig.speed}
+                  onChange={(e) => setEnemyConfig((prev) => ({ ...prev, speed: Number(e.target.value) }))}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  className="w-24"
+                />
+                <span className="w-16 text-gray-600 dark:text-gray-400">{enemyConfig.speed} 步/秒</span>
+                <label htmlFor="enemy-vision" className="text-gray-700 dark:text-gray-300">
+                  视野
+                </label>
+                <input
+                  id="enemy-vision"
+                  type="range"
+                  min={ENEMY_VISION_MIN}
+                  max={ENEMY_VISION_MAX}
+                  value={enemyConfig.vision}
+                  onChange={(e) => setEnemyConfig((prev) => ({ ...prev, vision: Number(e.target.value) }))}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  className="w-24"
+                />
+                <span className="w-12 text-gray-600 dark:text-gray-400">{enemyConfig.vision} 格</span>
+              </>
+            )}
+          </div>
+
+          {/* 视野模式 */}
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="maze-visibility" className="text-gray-700 dark:text-gray-300">
+              视野：
+            </label>
+            <select
+              id="maze-visibility"
+              value={visibility}
+              onChange={(e) => {
+                setVisibility(e.target.value as VisibilityMode);
+                setExplored(new Set());
+              }}
+              className="px-2 py-1 border rounded"
+            >
+              {(Object.keys(VISIBILITY_CONFIG) as VisibilityMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {VISIBILITY_CONFIG[mode].label}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {VISIBILITY_CONFIG[visibility].description}
+              {visibility !== VisibilityMode.FULL && `（半径 ${visionRadius}）`}
+            </span>
+          </div>
+
+          {/* 生成动画：回放生成过程, 高亮生成器当前位置, 额外分支单独着色 */}
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={animateGeneration}
+                onChange={(e) => setAnimateGeneration(e.target.checked)}
+                disabled={ifAutoMoving}
+              />
+              动画演示生成过程
+            </label>
+            <PlaybackControls
+              playing={ifGenerating && !genPaused}
+              speed={genSpeed}
+              disabled={!ifGenerating}
+              onTogglePlay={() => setGenPaused((paused) => !paused)}
+              onStep={() => advanceGeneration(1)}
+              onSpeedChange={setGenSpeed}
+            />
+            <button
+              onClick={finishGeneration}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={!ifGenerating}
+            >
+              跳过
+            </button>
+          </div>
+        </>
       )}
 
-      {/* 迷宫显示 */}
-      <div className="flex justify-center overflow-auto max-w-full">
-        <div
-          className="grid gap-0 border-2 border-gray-800 dark:border-gray-200"
-          style={{
-            gridTemplateColumns: `repeat(${MAZE_WIDTH}, ${mazeSize <= 21 ? '20px' : '15px'})`,
-            gridTemplateRows: `repeat(${MAZE_HEIGHT}, ${mazeSize <= 21 ? '20px' : '15px'})`,
+      {/* 种子：显示当前种子, 输入种子可复现同一迷宫 */}
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-700 dark:text-gray-300">
+          种子：<span className="font-mono">{(isClassicMaze ? mazeMeta.seed : sideSeed) ?? '-'}</span>
+        </span>
+        <input
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') loadSeedInput();
           }}
+          placeholder="输入种子"
+          className="w-36 px-2 py-1 border rounded font-mono"
+        />
+        <button
+          onClick={loadSeedInput}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={ifBusy || !seedInput.trim()}
         >
-          {/* CSS Grid 按行填充，所以先遍历 y（行），再遍历 x（列） */}
-          {maze.length > 0 && Array.from({ length: MAZE_HEIGHT }, (_, y) =>
-            Array.from({ length: MAZE_WIDTH }, (_, x) => {
-              // 安全检查：确保 maze[x] 和 maze[x][y] 存在
-              const cell = maze[x]?.[y] ?? 0;
-              const isPlayer = playerPos.x === x && playerPos.y === y;
-              const isEnd = endPos.x === x && endPos.y === y;
-              const inTrail = trail.has(`${x},${y}`);
-
-              const cellSize = mazeSize <= 21 ? 20 : 15;
-              const playerSize = mazeSize <= 21 ? 16 : 12;
-              
-              return (
-                <div
-                  key={`${x}-${y}`}
-                  className={`${cellSize === 20 ? 'w-5 h-5' : 'w-3.75 h-3.75'} flex items-center justify-center ${
-                    cell === 0
-                      ? 'bg-gray-800 dark:bg-gray-700'
-                      : inTrail
-                        ? 'bg-yellow-300 dark:bg-yellow-500'
-                        : 'bg-white dark:bg-gray-900'
-                  }`}
-                >
-                  {isPlayer && (
-                    <div className={`${playerSize === 16 ? 'w-4 h-4' : 'w-3 h-3'} bg-blue-600 rounded-full animate-pulse`} />
-                  )}
-                  {isEnd && !isPlayer && (
-                    <div className={`${playerSize === 16 ? 'w-4 h-4' : 'w-3 h-3'} bg-green-500 rounded-full`} />
-                  )}
-                </div>
-              );
-            })
-          ).flat()}
-        </div>
+          加载
+        </button>
       </div>
+
+      {!isClassicMaze ? (
+        sideSeed !== null && (
+          <SideModeGame
+            topology={topology}
+            levels={levels}
+            versus={versus}
+            width={MAZE_WIDTH}
+            height={MAZE_HEIGHT}
+            {...branchConfig}
+            algorithm={algorithm}
+            endpoints={endpointMode}
+            seed={sideSeed}
+            keyBindings={keyBindings}
+          />
+        )
+      ) : (
+        <>
+          {/* 导入导出 */}
+          <MazeTransferPanel
+            data={maze.length > 0 ? { maze, start: startPos, end: endPos, ...mazeMeta } : null}
+            disabled={ifBusy}
+            onImport={applyMazeData}
+          />
+          <ReplayPanel
+            recording={maze.length > 0 ? { data: { maze, start: startPos, end: endPos, ...mazeMeta }, moves: moveLog } : null}
+            active={replay !== null}
+            index={replayIndex}
+            total={replay?.moves.length ?? 0}
+            playing={replayPlaying}
+            speed={replaySpeed}
+            disabled={ifAutoMoving || ifGenerating}
+            onWatch={watchReplay}
+            onTogglePlay={() => setReplayPlaying((playing) => !playing)}
+            onSeek={(index) => {
+              setReplayPlaying(false);
+              seekReplay(index);
+            }}
+            onSpeedChange={setReplaySpeed}
+            onExit={exitReplay}
+          />
+
+          {/* 一键通关：使用选择的寻路算法 */}
+          <div className="flex items-center gap-3">
+            <select
+              value={solver}
+              onChange={(e) => setSolver(e.target.value as SolverAlgorithm)}
+              disabled={ifBusy}
+              title={SOLVER_CONFIG[solver].description}
+              className="px-2 py-1 border rounded text-sm"
+            >
+              {(Object.keys(SOLVER_CONFIG) as SolverAlgorithm[]).map((algo) => (
+                <option key={algo} value={algo}>
+                  {SOLVER_CONFIG[algo].label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={startAutoSolve}
+              className="px-6 py-3 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg font-medium transition-colors shadow-lg disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={ifBusy}
+            >
+              一键通关
+            </button>
+          </div>
+
+          {/* 提示：有次数限制, 每次使用扣分 */}
+          <div className="flex items-center gap-2 text-sm">
+            <select
+              value={hintType}
+              onChange={(e) => setHintType(e.target.value as HintType)}
+              title={HINT_CONFIG[hintType].description}
+              className="px-2 py-1 border rounded"
+            >
+              {(Object.keys(HINT_CONFIG) as HintType[]).map((type) => (
+                <option key={type} value={type}>
+                  {HINT_CONFIG[type].label}（-{HINT_CONFIG[type].penalty} 分）
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={requestHint}
+              className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={ifBusy || hintsLeft === 0 || runStats.finishedAt !== null}
+            >
+              提示（剩余 {hintsLeft} 次）
+            </button>
+            {hint?.junction && hint.direction && (
+              <span className="text-gray-700 dark:text-gray-300">
+                在 ({hint.junction.x}, {hint.junction.y}) 处向{DIRECTION_LABELS[hint.direction]}走
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={visualizeSearch}
+                onChange={(e) => setVisualizeSearch(e.target.checked)}
+                disabled={ifBusy}
+              />
+              可视化搜索过程
+            </label>
+            <PlaybackControls
+              playing={ifAutoMoving && !autoPaused}
+              speed={autoSpeed}
+              disabled={!ifAutoMoving}
+              onTogglePlay={() => setAutoPaused((paused) => !paused)}
+              onStep={() => advanceAuto(1)}
+              onSpeedChange={setAutoSpeed}
+            />
+          </div>
+          {solveStats && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {SOLVER_CONFIG[solveStats.solver].label}：探索 {solveStats.visited} 格，
+              {solveStats.path > 0 ? `路线 ${solveStats.path - 1} 步` : '未找到路线'}
+            </div>
+          )}
+          <AnalysisPanel
+            analysis={analysis}
+            band={analysisBand}
+            autoReroll={autoReroll}
+            rerollCount={rerollCount}
+            onAutoRerollChange={setAutoReroll}
+          />
+
+          {/* 实时成绩 */}
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            用时 {formatDuration(getElapsedMs(runStats, caughtAt ?? now))} · 步数 {runStats.moves} · 回头 {runStats.backtracks} ·
+            效率 {runStats.autoSolved ? '—' : calculateEfficiency(optimalSteps, runStats.moves)} ·
+            提示 {runStats.hintsUsed}/{mazeConfig.hints}
+            {entities.length > 0 && (
+              <>
+                {' '}· 金币 {coinCount.collected}/{coinCount.total} · 钥匙{' '}
+                {heldColors.size > 0
+                  ? [...heldColors].map((color) => KEY_COLOR_CONFIG[color].label).join(' ')
+                  : '无'}
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <button
+              onClick={() => stepHistory('undo')}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={ifBusy || undoStack.length === 0}
+            >
+              撤销 (Z)
+            </button>
+            <button
+              onClick={() => stepHistory('redo')}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={ifBusy || redoStack.length === 0}
+            >
+              重做 (Shift+Z)
+            </button>
+            <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />
+              显示足迹热力图
+            </label>
+          </div>
+
+          {/* 奔跑和点击寻路：按住 Shift 或开启奔跑模式沿走廊走到岔路口；点击格子自动寻路前往 */}
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={alwaysRun} onChange={(e) => setAlwaysRun(e.target.checked)} />
+              奔跑模式（或按住 Shift）
+            </label>
+            <input
+              type="range"
+              min={TRAVEL_SPEED_MIN}
+              max={TRAVEL_SPEED_MAX}
+              value={travelSpeed}
+              onChange={(e) => setTravelSpeed(Number(e.target.value))}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="w-32"
+            />
+            <span className="w-20 text-gray-600 dark:text-gray-400">{travelSpeed} 格/秒</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">点击迷宫中的格子可自动前往</span>
+          </div>
+
+          {/* 通关后的成绩和操作：自动通关或手动通关后都显示 */}
+          {showCompletionActions && (
+            <div className="flex items-center gap-4 mt-2">
+              <RunResults stats={runStats} optimalSteps={optimalSteps} now={now} />
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={retryMaze}
+                  className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+                >
+                  重新挑战
+                </button>
+                <button
+                  onClick={generateMaze}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium"
+                >
+                  下一关
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* 胜利提示 */}
+          {isWin && (
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400 animate-pulse">
+              恭喜！你到达了终点！🎉
+            </div>
+          )}
+
+          {/* 失败提示：被敌人抓住后只能重新挑战或换一个迷宫 */}
+          {caughtAt !== null && (
+            <div className="flex items-center gap-4">
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">被敌人抓住了！</div>
+              <button
+                onClick={retryMaze}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+              >
+                重新挑战
+              </button>
+              <button
+                onClick={generateMaze}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium"
+              >
+                下一关
+              </button>
+            </div>
+          )}
+
+          {/* 迷宫显示, 触屏上可以滑动操控 */}
+          <div
+            style={{ width: 'min(90vw, 800px)' }}
+            onTouchStart={handleTouchStart}
+            onTouchMove={handleTouchMove}
+            onTouchEnd={handleTouchEnd}
+            onTouchCancel={handleTouchEnd}
+          >
+            <MazeCanvas
+              width={gridWidth}
+              height={gridHeight}
+              getCellColor={getCellColor}
+              dirtyCells={dirtyCells}
+              fullRedrawKey={fullRedrawKey}
+              markers={[
+                ...entityMarkers,
+                ...(endRevealed ? [{ pos: endPos, color: CELL_COLORS.end }] : []),
+                { pos: playerPos, color: CELL_COLORS.player },
+                ...enemyMarkers,
+              ]}
+              focus={playerPos}
+              onCellClick={travelTo}
+            />
+          </div>
+
+          {/* 屏幕方向键和键位设置 */}
+          <DirectionPad disabled={ifBusy} onPress={pressDirection} onRelease={releaseDirection} />
+          {gamepadConnected && <div className="text-xs text-gray-500 dark:text-gray-400">已连接手柄</div>}
+          <details className="w-full text-sm">
+            <summary className="cursor-pointer text-gray-700 dark:text-gray-300">键位设置</summary>
+            <KeyBindingsPanel
+              bindings={keyBindings}
+              onChange={updateKeyBindings}
+              onReset={() => updateKeyBindings(DEFAULT_KEY_BINDINGS)}
+            />
+          </details>
+
+          {/* 排行榜和历史记录 */}
+          <Leaderboard history={history} disabled={ifBusy} onReplay={replayRecord} onClear={clearHistory} />
+        </>
+      )}
     </div>
   );
 }
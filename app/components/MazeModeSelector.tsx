@@ -0,0 +1,101 @@
+'use client';
+
+import { Topology } from '@/types';
+import { LEVELS_MAX, TOPOLOGY_CONFIG } from '@/constants';
+
+type MazeModeSelectorProps = {
+  topology: Topology;
+  levels: number;
+  versus: boolean;
+  disabled?: boolean;
+  onTopologyChange: (topology: Topology) => void;
+  onLevelsChange: (levels: number) => void;
+  onVersusChange: (versus: boolean) => void;
+};
+
+/**
+ * 迷宫模式选择：形状（拓扑）、层数（只用于方格）和双人对战（只用于单层方格）
+ */
+export default function MazeModeSelector({
+  topology,
+  levels,
+  versus,
+  disabled,
+  onTopologyChange,
+  onLevelsChange,
+  onVersusChange,
+}: MazeModeSelectorProps) {
+  return (
+    <>
+      {/* 迷宫拓扑：非方格拓扑使用单独的 TopologyGame, 只保留基本的游玩功能 */}
+      <div className="flex items-center gap-2 text-sm">
+        <label htmlFor="maze-topology" className="text-gray-700 dark:text-gray-300">
+          形状：
+        </label>
+        <select
+          id="maze-topology"
+          value={topology}
+          onChange={(e) => onTopologyChange(e.target.value as Topology)}
+          disabled={disabled}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(TOPOLOGY_CONFIG) as Topology[]).map((shape) => (
+            <option key={shape} value={shape}>
+              {TOPOLOGY_CONFIG[shape].label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {TOPOLOGY_CONFIG[topology].description}
+        </span>
+      </div>
+
+      {/* 多层迷宫：只用于方格 */}
+      {topology === Topology.SQUARE && (
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="maze-levels" className="text-gray-700 dark:text-gray-300">
+            层数：
+          </label>
+          <select
+            id="maze-levels"
+            value={levels}
+            onChange={(e) => onLevelsChange(Number(e.target.value))}
+            disabled={disabled}
+            className="px-2 py-1 border rounded"
+          >
+            {Array.from({ length: LEVELS_MAX }, (_, i) => i + 1).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+          {levels > 1 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              多层迷宫使用三维深度优先回溯生成，站在楼梯上换层
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* 双人对战：只用于单层方格 */}
+      {topology === Topology.SQUARE && levels === 1 && (
+        <div className="flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={versus}
+              onChange={(e) => onVersusChange(e.target.checked)}
+              disabled={disabled}
+            />
+            双人对战
+          </label>
+          {versus && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              1P 用 WASD，2P 用方向键，先到终点的赢得本局
+            </span>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { MazeData, MazeFormat } from '@/types';
+import { MAZE_FORMAT_LABELS } from '@/constants';
+import { exportMaze, importMaze, MazeFormatError } from '@/lib/mazeFormat';
+
+type MazeTransferPanelProps = {
+  data: MazeData | null;
+  disabled?: boolean;
+  onImport: (data: MazeData) => void;
+};
+
+/**
+ * 迷宫导入导出面板
+ * 导出：按选择的格式生成文本；导入：粘贴文本, 自动识别格式并校验
+ */
+export default function MazeTransferPanel({ data, disabled, onImport }: MazeTransferPanelProps) {
+  const [format, setFormat] = useState<MazeFormat>(MazeFormat.ASCII);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 定义 导出当前迷宫到文本框的函数
+   */
+  const handleExport = () => {
+    if (!data) return;
+    setText(exportMaze(data, format));
+    setError(null);
+  };
+
+  /**
+   * 定义 从文本框导入迷宫的函数, 格式错误时显示错误信息
+   */
+  const handleImport = () => {
+    try {
+      onImport(importMaze(text));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof MazeFormatError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as MazeFormat)}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(MAZE_FORMAT_LABELS) as MazeFormat[]).map((f) => (
+            <option key={f} value={f}>
+              {MAZE_FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled || !data}
+        >
+          导出
+        </button>
+        <button
+          onClick={handleImport}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled || !text.trim()}
+        >
+          导入
+        </button>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => e.stopPropagation()}
+        placeholder="导出的内容会显示在这里；粘贴 ASCII、JSON 或链接码后点击导入"
+        rows={6}
+        spellCheck={false}
+        className="w-full px-2 py-1 border rounded font-mono text-xs leading-tight"
+      />
+      {error && <div className="text-red-600 dark:text-red-400">导入失败：{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Direction, KeyBindings, Position } from '@/types';
+import { CELL_COLORS, LEVEL_DOWN_KEYS, LEVEL_UP_KEYS, MOVE_INTERVAL_MS } from '@/constants';
+import { createSeededRandom } from '@/lib/random';
+import {
+  canChangeLevel,
+  findShortestPath3D,
+  generateMultiLevelMaze,
+  getNextPosition,
+  keyToDirection,
+  stairKey,
+} from '@/lib/mazeUtils';
+import { LoopSystem, startGameLoop } from '@/lib/gameLoop';
+import MazeCanvas, { MazeMarker, useDirtyCells, useDirtyOnChange } from './MazeCanvas';
+import DirectionPad from './DirectionPad';
+import FloorMiniMap from './FloorMiniMap';
+
+type MultiLevelGameProps = {
+  width: number;
+  height: number;
+  levels: number;
+  branches: number;
+  branchMaxLength: number;
+  braid: number;
+  seed: number;
+  keyBindings: KeyBindings;
+};
+
+/**
+ * 定义 生成带层号的格子键的函数
+ */
+const levelKey = (pos: Position) => `${pos.x},${pos.y},${pos.level ?? 0}`;
+
+/**
+ * 定义 获取某层某格楼梯颜色的函数, 同一格可能既能上楼又能下楼, 不是楼梯时返回 null
+ */
+const getStairColor = (stairs: Set<string>, x: number, y: number, level: number): string | null => {
+  const up = stairs.has(stairKey(x, y, level));
+  const down = stairs.has(stairKey(x, y, level - 1));
+  if (up && down) return CELL_COLORS.stairBoth;
+  if (up) return CELL_COLORS.stairUp;
+  if (down) return CELL_COLORS.stairDown;
+  return null;
+};
+
+/**
+ * 多层迷宫：显示当前楼层, 旁边是所有楼层的小地图（点击可以查看其他楼层）
+ * 站在楼梯上时按 R / PageUp 上楼, F / PageDown 下楼；方向键按住时持续移动；迷宫参数变化时由父组件通过 key 重新挂载
+ */
+export default function MultiLevelGame({
+  width,
+  height,
+  levels,
+  branches,
+  branchMaxLength,
+  braid,
+  seed,
+  keyBindings,
+}: MultiLevelGameProps) {
+  const maze = useMemo(
+    () =>
+      generateMultiLevelMaze(width, height, levels, {
+        branches,
+        branchMaxLength,
+        braid,
+        random: createSeededRandom(seed),
+      }),
+    [width, height, levels, branches, branchMaxLength, braid, seed]
+  );
+  const [player, setPlayer] = useState<Position>(maze.start);
+  const [viewLevel, setViewLevel] = useState(0);
+  const [trail, setTrail] = useState<Set<string>>(new Set());
+  const [moves, setMoves] = useState(0);
+  const [solution, setSolution] = useState<Position[]>([]);
+  const heldRef = useRef<Direction | null>(null);
+  // 轨迹和路线变化的格子, 画布只重画这些格子；切换查看的楼层时整层重画
+  const { dirtyCells, markDirty } = useDirtyCells();
+  const playerLevel = player.level ?? 0;
+  const isWin = levelKey(player) === levelKey(maze.end);
+
+  /**
+   * 定义 移动到指定位置的函数, 视图回到玩家所在的楼层
+   */
+  const moveTo = useCallback(
+    (target: Position) => {
+      setPlayer(target);
+      setViewLevel(target.level ?? 0);
+      setTrail((prev) => new Set(prev).add(levelKey(target)));
+      markDirty([levelKey(target)]);
+      setMoves((prev) => prev + 1);
+    },
+    [markDirty]
+  );
+
+  /**
+   * 定义 在当前楼层按方向移动的函数
+   */
+  const move = useCallback(
+    (direction: Direction) => {
+      if (isWin) return;
+      const next = { ...getNextPosition(player, direction), level: playerLevel };
+      const floor = maze.floors[playerLevel];
+      if (next.x < 1 || next.x >= width - 1 || next.y < 1 || next.y >= height - 1) return;
+      if (floor[next.x][next.y] !== 1) return;
+      moveTo(next);
+    },
+    [maze, player, playerLevel, width, height, isWin, moveTo]
+  );
+
+  /**
+   * 定义 上楼（delta = 1）或下楼（delta = -1）的函数, 只有站在楼梯上才能换层
+   */
+  const changeLevel = useCallback(
+    (delta: 1 | -1) => {
+      if (isWin || !canChangeLevel(maze, player, delta)) return;
+      moveTo({ ...player, level: playerLevel + delta });
+    },
+    [maze, player, playerLevel, isWin, moveTo]
+  );
+
+  /**
+   * 定义 按下 / 松开方向的函数, 键盘和屏幕方向键共用
+   * 按下时立即移动一次并记录方向, 由游戏循环持续移动, 松开时停止
+   */
+  const pressDirection = useCallback(
+    (direction: Direction) => {
+      heldRef.current = direction;
+      move(direction);
+    },
+    [move]
+  );
+
+  const releaseDirection = useCallback((direction: Direction) => {
+    if (heldRef.current === direction) heldRef.current = null;
+  }, []);
+
+  /**
+   * 键盘控制：方向键位与方格迷宫相同, 另有上下楼按键
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (LEVEL_UP_KEYS.includes(key) || LEVEL_DOWN_KEYS.includes(key)) {
+        e.preventDefault();
+        changeLevel(LEVEL_UP_KEYS.includes(key) ? 1 : -1);
+        return;
+      }
+      const direction = keyToDirection(e.key, keyBindings);
+      if (!direction) return;
+      e.preventDefault();
+      if (e.repeat) return;
+      pressDirection(direction);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const direction = keyToDirection(e.key, keyBindings);
+      if (!direction) return;
+      e.preventDefault();
+      releaseDirection(direction);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [pressDirection, releaseDirection, changeLevel, keyBindings]);
+
+  /**
+   * 游戏循环：按住方向时持续移动
+   */
+  const systemsRef = useRef<Record<string, LoopSystem>>({});
+  useEffect(() => {
+    systemsRef.current = {
+      hold: {
+        interval: MOVE_INTERVAL_MS,
+        run: () => {
+          if (heldRef.current) move(heldRef.current);
+        },
+      },
+    };
+  });
+  useEffect(() => startGameLoop(() => systemsRef.current), []);
+
+  /**
+   * 定义 回到起点重新开始的函数
+   */
+  const restart = () => {
+    heldRef.current = null;
+    setPlayer(maze.start);
+    setViewLevel(0);
+    setTrail((prev) => {
+      markDirty(prev);
+      return new Set();
+    });
+    setMoves(0);
+    setSolution([]);
+  };
+
+  // 每层的楼梯位置和颜色, 用于小地图
+  const stairsByLevel = useMemo(() => {
+    const result: MazeMarker[][] = maze.floors.map(() => []);
+    maze.stairs.forEach((key) => {
+      const [x, y, level] = key.split(',').map(Number);
+      for (const stairLevel of [level, level + 1]) {
+        result[stairLevel].push({ pos: { x, y }, color: getStairColor(maze.stairs, x, y, stairLevel) ?? CELL_COLORS.stairUp });
+      }
+    });
+    return result;
+  }, [maze]);
+
+  const solutionCells = useMemo(() => new Set(solution.map(levelKey)), [solution]);
+  useDirtyOnChange(markDirty, solutionCells);
+  const floor = maze.floors[viewLevel];
+
+  /**
+   * 定义 计算当前查看楼层的格子颜色的函数
+   * 优先级：墙 > 楼梯（上楼 / 下楼 / 上下都可以）> 路线 > 轨迹 > 普通路
+   */
+  const getCellColor = useCallback(
+    (x: number, y: number) => {
+      if (floor[x][y] !== 1) return CELL_COLORS.wall;
+      const stairColor = getStairColor(maze.stairs, x, y, viewLevel);
+      if (stairColor) return stairColor;
+      const key = `${x},${y},${viewLevel}`;
+      if (solutionCells.has(key)) return CELL_COLORS.hint;
+      if (trail.has(key)) return CELL_COLORS.trail;
+      return CELL_COLORS.path;
+    },
+    [floor, maze, viewLevel, solutionCells, trail]
+  );
+
+  const markers = [
+    ...((maze.end.level ?? 0) === viewLevel ? [{ pos: maze.end, color: CELL_COLORS.end }] : []),
+    ...(playerLevel === viewLevel ? [{ pos: player, color: CELL_COLORS.player }] : []),
+  ];
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => setSolution(findShortestPath3D(maze, player, maze.end))}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          显示路线
+        </button>
+        <button
+          onClick={restart}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          重新开始
+        </button>
+        <span className="text-gray-700 dark:text-gray-300">
+          第 {playerLevel + 1} / {levels} 层，步数：{moves}
+          {solution.length > 0 && `（剩余最短 ${solution.length - 1}）`}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        <span style={{ color: CELL_COLORS.stairUp }}>■</span> 上楼（R / PageUp）
+        <span className="ml-2" style={{ color: CELL_COLORS.stairDown }}>■</span> 下楼（F / PageDown）
+        <span className="ml-2" style={{ color: CELL_COLORS.stairBoth }}>■</span> 上下楼都可以
+        ，终点在第 {levels} 层
+      </div>
+      {isWin && <div className="text-2xl font-bold text-green-600 dark:text-green-400">🎉 恭喜通关！</div>}
+      {viewLevel !== playerLevel && (
+        <div className="text-sm text-yellow-600 dark:text-yellow-400">
+          正在查看第 {viewLevel + 1} 层，移动后回到玩家所在楼层
+        </div>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        {maze.floors.map((levelFloor, level) => (
+          <FloorMiniMap
+            key={level}
+            floor={levelFloor}
+            label={`第 ${level + 1} 层`}
+            active={level === viewLevel}
+            stairs={stairsByLevel[level]}
+            player={level === playerLevel ? player : undefined}
+            end={level === (maze.end.level ?? 0) ? maze.end : undefined}
+            onClick={() => setViewLevel(level)}
+          />
+        ))}
+      </div>
+      <div style={{ width: 'min(90vw, 800px)' }}>
+        <MazeCanvas
+          width={width}
+          height={height}
+          getCellColor={getCellColor}
+          dirtyCells={dirtyCells}
+          fullRedrawKey={floor}
+          markers={markers}
+          focus={player}
+        />
+      </div>
+      <div className="flex items-center gap-4">
+        <DirectionPad disabled={isWin} onPress={pressDirection} onRelease={releaseDirection} />
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={() => changeLevel(1)}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+            disabled={!canChangeLevel(maze, player, 1)}
+          >
+            上楼
+          </button>
+          <button
+            onClick={() => changeLevel(-1)}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+            disabled={!canChangeLevel(maze, player, -1)}
+          >
+            下楼
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { PLAYBACK_SPEED_MIN, PLAYBACK_SPEED_MAX } from '@/constants';
+
+type PlaybackControlsProps = {
+  playing: boolean;
+  speed: number;
+  disabled?: boolean;
+  onTogglePlay: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+};
+
+/**
+ * 回放控制条：播放 / 暂停、单步、速度（每秒步数）
+ */
+export default function PlaybackControls({
+  playing,
+  speed,
+  disabled,
+  onTogglePlay,
+  onStep,
+  onSpeedChange,
+}: PlaybackControlsProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <button
+        onClick={onTogglePlay}
+        className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+        disabled={disabled}
+      >
+        {playing ? '暂停' : '播放'}
+      </button>
+      <button
+        onClick={onStep}
+        className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+        disabled={disabled || playing}
+      >
+        单步
+      </button>
+      <input
+        type="range"
+        min={PLAYBACK_SPEED_MIN}
+        max={PLAYBACK_SPEED_MAX}
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        onKeyDown={(e) => e.stopPropagation()}
+        className="w-32"
+      />
+      <span className="w-20 text-gray-600 dark:text-gray-400">{speed} 步/秒</span>
+    </div>
+  );
+}
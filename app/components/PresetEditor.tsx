@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { MazeAlgorithm, MazePreset } from '@/types';
+import { ALGORITHM_CONFIG, CUSTOM_SIZE_MIN, CUSTOM_SIZE_MAX } from '@/constants';
+import { getPresetError } from '@/lib/presets';
+
+type PresetEditorProps = {
+  current: Omit<MazePreset, 'id' | 'name'>;
+  presets: MazePreset[];
+  disabled?: boolean;
+  onApply: (preset: MazePreset) => void;
+  onSave: (preset: MazePreset) => void;
+  onDelete: (id: string) => void;
+};
+
+/**
+ * 表单中的数字都先以文本保存, 方便输入过程中出现空值
+ */
+type PresetForm = {
+  name: string;
+  width: string;
+  height: string;
+  branches: string;
+  branchMaxLength: string;
+  algorithm: MazeAlgorithm;
+};
+
+/**
+ * 定义 把预设转换为表单内容的函数
+ */
+const toForm = (preset: Omit<MazePreset, 'id'>): PresetForm => ({
+  name: preset.name,
+  width: String(preset.width),
+  height: String(preset.height),
+  branches: String(preset.branches),
+  branchMaxLength: String(preset.branchMaxLength),
+  algorithm: preset.algorithm,
+});
+
+const NUMBER_FIELDS = [
+  { field: 'width', label: '宽度', min: CUSTOM_SIZE_MIN, max: CUSTOM_SIZE_MAX, step: 2 },
+  { field: 'height', label: '高度', min: CUSTOM_SIZE_MIN, max: CUSTOM_SIZE_MAX, step: 2 },
+  { field: 'branches', label: '额外分支', min: 0, step: 1 },
+  { field: 'branchMaxLength', label: '分支长度', min: 1, step: 1 },
+] as const;
+
+/**
+ * 自定义难度编辑器
+ * 可以直接应用当前设置, 或起名保存为预设（同名覆盖）；已保存的预设可以载入编辑或删除
+ */
+export default function PresetEditor({ current, presets, disabled, onApply, onSave, onDelete }: PresetEditorProps) {
+  const [form, setForm] = useState<PresetForm>(() => toForm({ ...current, name: '' }));
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 定义 校验表单并生成预设的函数, 不合法时显示错误并返回 null
+   */
+  const buildPreset = (name: string): MazePreset | null => {
+    const preset = {
+      name,
+      width: Number(form.width),
+      height: Number(form.height),
+      branches: Number(form.branches),
+      branchMaxLength: Number(form.branchMaxLength),
+      algorithm: form.algorithm,
+    };
+    const presetError = getPresetError(preset);
+    setError(presetError);
+    return presetError ? null : { ...preset, name: name.trim(), id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          onKeyDown={(e) => e.stopPropagation()}
+          placeholder="预设名称"
+          className="w-28 px-2 py-1 border rounded"
+        />
+        {NUMBER_FIELDS.map(({ field, label, ...range }) => (
+          <label key={field} className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+            {label}
+            <input
+              type="number"
+              {...range}
+              value={form[field]}
+              onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="w-20 px-2 py-1 border rounded"
+            />
+          </label>
+        ))}
+        <select
+          value={form.algorithm}
+          onChange={(e) => setForm({ ...form, algorithm: e.target.value as MazeAlgorithm })}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(ALGORITHM_CONFIG) as MazeAlgorithm[]).map((algo) => (
+            <option key={algo} value={algo}>
+              {ALGORITHM_CONFIG[algo].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => {
+            const preset = buildPreset(form.name.trim() || '自定义');
+            if (preset) onApply(preset);
+          }}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          应用
+        </button>
+        <button
+          onClick={() => {
+            const preset = buildPreset(form.name);
+            if (preset) onSave(preset);
+          }}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          保存为预设
+        </button>
+        {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+      {presets.map((preset) => (
+        <div key={preset.id} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <span className="font-medium">{preset.name}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {preset.width}x{preset.height}，分支 {preset.branches}（长 {preset.branchMaxLength}），
+            {ALGORITHM_CONFIG[preset.algorithm].label}
+          </span>
+          <button
+            onClick={() => {
+              setForm(toForm(preset));
+              setError(null);
+            }}
+            className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded font-medium"
+          >
+            编辑
+          </button>
+          <button
+            onClick={() => onDelete(preset.id)}
+            className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded font-medium"
+          >
+            删除
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Replay } from '@/types';
+import { REPLAY_SPEEDS } from '@/constants';
+import { MazeFormatError } from '@/lib/mazeFormat';
+import { parseReplay, serializeReplay } from '@/lib/replay';
+
+type ReplayPanelProps = {
+  recording: Replay | null;
+  active: boolean;
+  index: number;
+  total: number;
+  playing: boolean;
+  speed: number;
+  disabled?: boolean;
+  onWatch: (replay: Replay) => void;
+  onTogglePlay: () => void;
+  onSeek: (index: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+};
+
+/**
+ * 录像面板
+ * 观看 / 导出本局录像、从文件导入录像；回放时提供播放 / 暂停、拖动进度和倍速
+ */
+export default function ReplayPanel({
+  recording,
+  active,
+  index,
+  total,
+  playing,
+  speed,
+  disabled,
+  onWatch,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: ReplayPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hasRecording = recording !== null && recording.moves.length > 0;
+
+  /**
+   * 定义 把本局录像下载为文件的函数
+   */
+  const handleExport = () => {
+    if (!recording) return;
+    const blob = new Blob([serializeReplay(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `maze-replay-${recording.data.seed ?? 'custom'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * 定义 读取选择的录像文件并开始回放的函数, 格式错误时显示错误信息
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 允许重复选择同一个文件
+    if (!file) return;
+    try {
+      onWatch(parseReplay(await file.text()));
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof MazeFormatError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => recording && onWatch(recording)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled || active || !hasRecording}
+        >
+          观看本局录像
+        </button>
+        <button
+          onClick={handleExport}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={!hasRecording}
+        >
+          导出录像
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          导入录像
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+      {active && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onTogglePlay}
+            className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+          >
+            {playing ? '暂停' : '播放'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={total}
+            value={index}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="w-40"
+          />
+          <span className="w-20 text-gray-600 dark:text-gray-400">
+            {index} / {total}
+          </span>
+          <select
+            value={speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+            className="px-2 py-1 border rounded"
+          >
+            {REPLAY_SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}x
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onExit}
+            className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+          >
+            退出回放
+          </button>
+        </div>
+      )}
+      {error && <div className="text-red-600 dark:text-red-400">导入失败：{error}</div>}
+    </div>
+  );
+}
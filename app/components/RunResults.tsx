@@ -0,0 +1,43 @@
+'use client';
+
+import { RunStats } from '@/types';
+import { calculateEfficiency, calculateScore, formatDuration, getElapsedMs } from '@/lib/scoring';
+
+type RunResultsProps = {
+  stats: RunStats;
+  optimalSteps: number;
+  now: number;
+};
+
+/**
+ * 成绩面板：用时、步数、回头次数、最短路线、效率分、提示扣分和最终得分
+ */
+export default function RunResults({ stats, optimalSteps, now }: RunResultsProps) {
+  const efficiency = calculateEfficiency(optimalSteps, stats.moves);
+
+  return (
+    <div className="flex flex-col gap-1 px-4 py-2 border rounded-lg text-sm text-gray-700 dark:text-gray-300">
+      <div className="font-bold">本局成绩</div>
+      <div>用时：{formatDuration(getElapsedMs(stats, now))}</div>
+      <div>
+        步数：{stats.moves}（最短 {optimalSteps}）
+      </div>
+      <div>回头：{stats.backtracks} 次</div>
+      {stats.autoSolved ? (
+        <div className="text-yellow-600 dark:text-yellow-400">使用了一键通关，不计效率分</div>
+      ) : (
+        <>
+          <div>效率分：{efficiency}</div>
+          {stats.hintsUsed > 0 && (
+            <div>
+              提示：{stats.hintsUsed} 次（-{stats.hintPenalty}）
+            </div>
+          )}
+          <div className="font-bold text-green-600 dark:text-green-400">
+            得分：{calculateScore(efficiency, stats.hintPenalty)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { EndpointMode, KeyBindings, MazeAlgorithm, Topology } from '@/types';
+import TopologyGame from './TopologyGame';
+import MultiLevelGame from './MultiLevelGame';
+import VersusGame from './VersusGame';
+
+type SideModeGameProps = {
+  topology: Topology;
+  levels: number;
+  versus: boolean;
+  width: number;
+  height: number;
+  branches: number;
+  branchMaxLength: number;
+  braid: number;
+  algorithm: MazeAlgorithm;
+  endpoints: EndpointMode;
+  seed: number;
+  keyBindings: KeyBindings;
+};
+
+/**
+ * 单层方格以外的模式：非方格拓扑、多层迷宫和双人对战, 由 MazeGame 在这些模式下代替单层方格迷宫显示
+ * 使用自己的种子, 切换模式不会重新生成单层方格迷宫
+ * key 包含对应组件生成迷宫用到的全部参数, 任何一项变化都重新挂载, 玩家位置、足迹等状态不会留在旧迷宫上
+ */
+export default function SideModeGame({
+  topology,
+  levels,
+  versus,
+  width,
+  height,
+  branches,
+  branchMaxLength,
+  braid,
+  algorithm,
+  endpoints,
+  seed,
+  keyBindings,
+}: SideModeGameProps) {
+  if (topology !== Topology.SQUARE) {
+    return (
+      <TopologyGame
+        key={`${topology}-${width}x${height}-${algorithm}-${seed}`}
+        topology={topology}
+        width={width}
+        height={height}
+        algorithm={algorithm}
+        seed={seed}
+      />
+    );
+  }
+  if (levels > 1) {
+    return (
+      <MultiLevelGame
+        key={`${levels}-${width}x${height}-${branches}-${branchMaxLength}-${braid}-${seed}`}
+        width={width}
+        height={height}
+        levels={levels}
+        branches={branches}
+        branchMaxLength={branchMaxLength}
+        braid={braid}
+        seed={seed}
+        keyBindings={keyBindings}
+      />
+    );
+  }
+  if (versus) {
+    return (
+      <VersusGame
+        key={`${width}x${height}-${branches}-${branchMaxLength}-${braid}-${algorithm}-${endpoints}-${seed}`}
+        width={width}
+        height={height}
+        branches={branches}
+        branchMaxLength={branchMaxLength}
+        braid={braid}
+        algorithm={algorithm}
+        endpoints={endpoints}
+        seed={seed}
+      />
+    );
+  }
+  return null;
+}
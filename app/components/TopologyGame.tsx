@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MazeAlgorithm, SolverAlgorithm, Topology, TopologyDirection } from '@/types';
+import {
+  ALGORITHM_CONFIG,
+  CELL_COLORS,
+  SOLVER_CONFIG,
+  TOPOLOGY_DIRECTION_LABELS,
+  TOPOLOGY_KEY_BINDINGS,
+} from '@/constants';
+import { createSeededRandom } from '@/lib/random';
+import {
+  TOPOLOGY_GENERATORS,
+  TOPOLOGY_SOLVERS,
+  generateTopologyMaze,
+  getTopologyMove,
+  isConnected,
+  solveTopologyMaze,
+} from '@/lib/topologyMaze';
+
+type TopologyGameProps = {
+  topology: Exclude<Topology, Topology.SQUARE>;
+  width: number;
+  height: number;
+  algorithm: MazeAlgorithm;
+  seed: number;
+};
+
+/**
+ * 墙的线宽（布局坐标, 格子边长约为 1）
+ */
+const WALL_WIDTH = 0.12;
+
+/**
+ * 非方格拓扑（六边形、三角形、圆形）的迷宫
+ * 用 SVG 按多边形绘制格子, 没有打通的边画成墙；支持键盘、屏幕按钮和点击相邻格子移动
+ * 迷宫参数变化时由父组件通过 key 重新挂载, 回到起点
+ */
+export default function TopologyGame({ topology, width, height, algorithm, seed }: TopologyGameProps) {
+  const maze = useMemo(
+    () => generateTopologyMaze(topology, width, height, algorithm, createSeededRandom(seed)),
+    [topology, width, height, algorithm, seed]
+  );
+  const [player, setPlayer] = useState(maze.start);
+  const [trail, setTrail] = useState<Set<number>>(new Set());
+  const [moves, setMoves] = useState(0);
+  const [solution, setSolution] = useState<number[]>([]);
+  const [solver, setSolver] = useState<SolverAlgorithm>(SolverAlgorithm.BFS);
+  const isWin = player === maze.end;
+
+  /**
+   * 定义 回到起点重新开始的函数
+   */
+  const restart = () => {
+    setPlayer(maze.start);
+    setTrail(new Set());
+    setMoves(0);
+    setSolution([]);
+  };
+
+  /**
+   * 定义 移动到指定格子的函数
+   */
+  const moveTo = useCallback((target: number) => {
+    setTrail((prev) => new Set(prev).add(target));
+    setPlayer(target);
+    setMoves((prev) => prev + 1);
+  }, []);
+
+  /**
+   * 定义 按方向移动的函数, 依次尝试各方向, 都不通时不动
+   */
+  const move = useCallback(
+    (directions: TopologyDirection[]) => {
+      if (isWin) return;
+      const target = getTopologyMove(maze, player, directions);
+      if (target !== null) moveTo(target);
+    },
+    [maze, player, isWin, moveTo]
+  );
+
+  /**
+   * 定义 点击格子的函数, 点击打通的相邻格子时移动过去
+   */
+  const handleCellClick = (cell: number) => {
+    if (isWin || !isConnected(maze, player, cell)) return;
+    moveTo(cell);
+  };
+
+  /**
+   * 键盘控制：按当前拓扑的按键映射移动
+   */
+  useEffect(() => {
+    const bindings = TOPOLOGY_KEY_BINDINGS[topology];
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const directions = bindings[e.key.toLowerCase()];
+      if (!directions) return;
+      e.preventDefault();
+      move(directions);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [topology, move]);
+
+  // 屏幕按钮：当前拓扑用到的所有方向
+  const buttons = useMemo(
+    () => [...new Set(Object.values(TOPOLOGY_KEY_BINDINGS[topology]).flat())],
+    [topology]
+  );
+
+  // 所有墙合并为一条 SVG 路径, 两个格子之间的墙只画一次
+  const wallPath = useMemo(() => {
+    const { polygons, sides } = maze.grid;
+    const segments: string[] = [];
+    polygons.forEach((polygon, cell) => {
+      polygon.forEach(([x1, y1], k) => {
+        const side = sides[cell][k];
+        if (side !== null && (side < cell || isConnected(maze, cell, side))) return;
+        const [x2, y2] = polygon[(k + 1) % polygon.length];
+        segments.push(`M${x1.toFixed(3)} ${y1.toFixed(3)}L${x2.toFixed(3)} ${y2.toFixed(3)}`);
+      });
+    });
+    return segments.join('');
+  }, [maze]);
+
+  const solutionCells = useMemo(() => new Set(solution), [solution]);
+  const getFill = (cell: number) => {
+    if (cell === maze.end) return CELL_COLORS.end;
+    if (solutionCells.has(cell)) return CELL_COLORS.hint;
+    if (trail.has(cell)) return CELL_COLORS.trail;
+    return CELL_COLORS.path;
+  };
+
+  const { grid } = maze;
+  const [px, py] = grid.centers[player];
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      {!TOPOLOGY_GENERATORS[algorithm] && (
+        <div className="text-xs text-yellow-600 dark:text-yellow-400">
+          {ALGORITHM_CONFIG[algorithm].label}只支持方格，已改用{ALGORITHM_CONFIG[MazeAlgorithm.BACKTRACKING].label}
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-sm">
+        <select
+          value={solver}
+          onChange={(e) => setSolver(e.target.value as SolverAlgorithm)}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(TOPOLOGY_SOLVERS) as SolverAlgorithm[]).map((algo) => (
+            <option key={algo} value={algo}>
+              {SOLVER_CONFIG[algo].label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setSolution(solveTopologyMaze(maze, solver).path)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          显示路线
+        </button>
+        <button
+          onClick={restart}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          重新开始
+        </button>
+        <span className="text-gray-700 dark:text-gray-300">
+          步数：{moves}
+          {solution.length > 0 && `（最短 ${solution.length - 1}）`}
+        </span>
+      </div>
+      {isWin && <div className="text-2xl font-bold text-green-600 dark:text-green-400">🎉 恭喜通关！</div>}
+      <svg
+        viewBox={`${-WALL_WIDTH} ${-WALL_WIDTH} ${grid.width + WALL_WIDTH * 2} ${grid.height + WALL_WIDTH * 2}`}
+        style={{ width: 'min(90vw, 800px)' }}
+        className="border rounded bg-white"
+      >
+        {grid.polygons.map((polygon, cell) => (
+          <polygon
+            key={cell}
+            points={polygon.map(([x, y]) => `${x.toFixed(3)},${y.toFixed(3)}`).join(' ')}
+            fill={getFill(cell)}
+            stroke={getFill(cell)}
+            strokeWidth={0.02}
+            onClick={() => handleCellClick(cell)}
+          />
+        ))}
+        <path d={wallPath} stroke={CELL_COLORS.wall} strokeWidth={WALL_WIDTH} strokeLinecap="round" fill="none" />
+        <circle cx={px} cy={py} r={0.3} fill={CELL_COLORS.player} pointerEvents="none" />
+      </svg>
+      <div className="flex flex-wrap justify-center gap-1 select-none">
+        {buttons.map((direction) => (
+          <button
+            key={direction}
+            onClick={() => move([direction])}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 active:bg-gray-400 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium disabled:opacity-60"
+            disabled={isWin}
+          >
+            {TOPOLOGY_DIRECTION_LABELS[direction]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Direction, EndpointMode, MazeAlgorithm, Position } from '@/types';
+import {
+  CELL_COLORS,
+  MOVE_INTERVAL_MS,
+  VERSUS_BEST_OF,
+  VERSUS_BEST_OF_DEFAULT,
+  VERSUS_PLAYERS,
+  VERSUS_SHARED_TRAIL_COLOR,
+} from '@/constants';
+import { createSeededRandom } from '@/lib/random';
+import { generateMazeGrid, getNextPosition, keyToDirection } from '@/lib/mazeUtils';
+import { LoopSystem, startGameLoop } from '@/lib/gameLoop';
+import MazeCanvas, { MazeMarker, useDirtyCells } from './MazeCanvas';
+
+type VersusGameProps = {
+  width: number;
+  height: number;
+  branches: number;
+  branchMaxLength: number;
+  braid: number;
+  algorithm: MazeAlgorithm;
+  endpoints: EndpointMode;
+  seed: number;
+};
+
+/**
+ * 定义 计算每局迷宫种子的函数：第一局使用传入的种子, 之后每局加一, 相同种子的比赛每局迷宫都相同
+ */
+const getRoundSeed = (seed: number, round: number) => (seed + round) >>> 0;
+
+/**
+ * 双人对战：两人在同一个迷宫中从同一起点出发, 先到终点的赢得本局, 先赢过半局数的赢得比赛
+ * 1P 用 WASD, 2P 用方向键, 按住时持续移动；迷宫参数变化时由父组件通过 key 重新挂载
+ */
+export default function VersusGame({
+  width,
+  height,
+  branches,
+  branchMaxLength,
+  braid,
+  algorithm,
+  endpoints,
+  seed,
+}: VersusGameProps) {
+  const [bestOf, setBestOf] = useState(VERSUS_BEST_OF_DEFAULT);
+  const [round, setRound] = useState(0);
+  const [scores, setScores] = useState<number[]>(() => VERSUS_PLAYERS.map(() => 0));
+  const data = useMemo(
+    () =>
+      generateMazeGrid(width, height, {
+        branches,
+        branchMaxLength,
+        braid,
+        algorithm,
+        endpoints,
+        random: createSeededRandom(getRoundSeed(seed, round)),
+      }),
+    [width, height, branches, branchMaxLength, braid, algorithm, endpoints, seed, round]
+  );
+  const [positions, setPositions] = useState<Position[]>(() => VERSUS_PLAYERS.map(() => data.start));
+  const [trails, setTrails] = useState<Set<string>[]>(() => VERSUS_PLAYERS.map(() => new Set()));
+  const [roundWinner, setRoundWinner] = useState<number | null>(null);
+  // 两人可能在同一帧到达终点, 用 ref 同步记录本局是否结束, 只算先到的一人
+  const roundOverRef = useRef(false);
+  const heldRef = useRef<(Direction | null)[]>(VERSUS_PLAYERS.map(() => null));
+  // 足迹变化的格子, 画布只重画这些格子
+  const { dirtyCells, markDirty } = useDirtyCells();
+
+  const winsNeeded = Math.ceil(bestOf / 2);
+  const matchWinner = scores.findIndex((score) => score >= winsNeeded);
+
+  /**
+   * 定义 回到本局起点的函数
+   */
+  const resetRound = useCallback(() => {
+    setPositions(VERSUS_PLAYERS.map(() => data.start));
+    setTrails((prev) => {
+      prev.forEach((trail) => markDirty(trail));
+      return VERSUS_PLAYERS.map(() => new Set());
+    });
+    setRoundWinner(null);
+    roundOverRef.current = false;
+    heldRef.current = VERSUS_PLAYERS.map(() => null);
+  }, [data, markDirty]);
+
+  /**
+   * 换局（迷宫变化）时两人回到新迷宫的起点
+   */
+  useEffect(() => {
+    resetRound();
+  }, [resetRound]);
+
+  /**
+   * 定义 重新开始比赛的函数, 比分清零并回到第一局
+   */
+  const restartMatch = (newBestOf = bestOf) => {
+    setBestOf(newBestOf);
+    setScores(VERSUS_PLAYERS.map(() => 0));
+    setRound(0);
+    resetRound();
+  };
+
+  /**
+   * 定义 让一名玩家按方向移动的函数, 到达终点时赢得本局
+   */
+  const move = useCallback(
+    (player: number, direction: Direction) => {
+      if (roundOverRef.current) return;
+      const { maze, end } = data;
+      const next = getNextPosition(positions[player], direction);
+      if (next.x < 1 || next.x >= maze.length - 1 || next.y < 1 || next.y >= maze[0].length - 1) return;
+      if (maze[next.x][next.y] !== 1) return;
+      setPositions((prev) => prev.map((pos, i) => (i === player ? next : pos)));
+      setTrails((prev) => prev.map((trail, i) => (i === player ? new Set(trail).add(`${next.x},${next.y}`) : trail)));
+      markDirty([`${next.x},${next.y}`]);
+      if (next.x !== end.x || next.y !== end.y) return;
+      roundOverRef.current = true;
+      heldRef.current = VERSUS_PLAYERS.map(() => null);
+      setRoundWinner(player);
+      setScores((prev) => prev.map((score, i) => (i === player ? score + 1 : score)));
+    },
+    [data, positions, markDirty]
+  );
+
+  /**
+   * 键盘控制：按下时立即移动一次并记录方向, 由游戏循环持续移动, 松开时停止
+   */
+  useEffect(() => {
+    // 定义 查找按键属于哪名玩家的函数
+    const findPlayer = (key: string) => {
+      for (let player = 0; player < VERSUS_PLAYERS.length; player++) {
+        const direction = keyToDirection(key, VERSUS_PLAYERS[player].bindings);
+        if (direction) return { player, direction };
+      }
+      return null;
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const found = findPlayer(e.key);
+      if (!found) return;
+      e.preventDefault();
+      if (e.repeat) return;
+      heldRef.current[found.player] = found.direction;
+      move(found.player, found.direction);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const found = findPlayer(e.key);
+      if (!found) return;
+      e.preventDefault();
+      if (heldRef.current[found.player] === found.direction) heldRef.current[found.player] = null;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [move]);
+
+  /**
+   * 游戏循环：每名玩家各有一个按住移动的系统, 两人可以同时按住
+   */
+  const systemsRef = useRef<Record<string, LoopSystem>>({});
+  useEffect(() => {
+    systemsRef.current = Object.fromEntries(
+      VERSUS_PLAYERS.map((_, player): [string, LoopSystem] => [
+        `hold-${player}`,
+        {
+          interval: MOVE_INTERVAL_MS,
+          run: () => {
+            const direction = heldRef.current[player];
+            if (direction) move(player, direction);
+          },
+        },
+      ])
+    );
+  });
+  useEffect(() => startGameLoop(() => systemsRef.current), []);
+
+  const openingKeys = useMemo(() => new Set((data.openings ?? []).map((pos) => `${pos.x},${pos.y}`)), [data]);
+
+  /**
+   * 定义 计算格子颜色的函数, 两人都走过的格子用混合色
+   */
+  const getCellColor = useCallback(
+    (x: number, y: number) => {
+      const key = `${x},${y}`;
+      if (data.maze[x]?.[y] !== 1 && !openingKeys.has(key)) return CELL_COLORS.wall;
+      const walked = trails.map((trail) => trail.has(key));
+      if (walked.every(Boolean)) return VERSUS_SHARED_TRAIL_COLOR;
+      const player = walked.indexOf(true);
+      return player >= 0 ? VERSUS_PLAYERS[player].trailColor : CELL_COLORS.path;
+    },
+    [data, openingKeys, trails]
+  );
+
+  const markers: MazeMarker[] = [
+    { pos: data.end, color: CELL_COLORS.end },
+    ...positions.map((pos, player) => ({ pos, color: VERSUS_PLAYERS[player].color })),
+  ];
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+        <label htmlFor="versus-best-of" className="text-gray-700 dark:text-gray-300">
+          局数：
+        </label>
+        <select
+          id="versus-best-of"
+          value={bestOf}
+          onChange={(e) => restartMatch(Number(e.target.value))}
+          className="px-2 py-1 border rounded"
+        >
+          {VERSUS_BEST_OF.map((count) => (
+            <option key={count} value={count}>
+              {count} 局 {Math.ceil(count / 2)} 胜
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => restartMatch()}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg font-medium"
+        >
+          重新开始比赛
+        </button>
+        <span className="text-gray-700 dark:text-gray-300">第 {round + 1} 局</span>
+      </div>
+      <div className="flex items-center gap-6 text-lg font-bold">
+        {VERSUS_PLAYERS.map((player, i) => (
+          <span key={player.label} style={{ color: player.color }}>
+            {player.label}（{player.keysLabel}）：{scores[i]}
+          </span>
+        ))}
+      </div>
+      {matchWinner >= 0 ? (
+        <div className="text-2xl font-bold" style={{ color: VERSUS_PLAYERS[matchWinner].color }}>
+          🎉 {VERSUS_PLAYERS[matchWinner].label} 赢得比赛！
+        </div>
+      ) : (
+        roundWinner !== null && (
+          <div className="flex items-center gap-4">
+            <div className="text-2xl font-bold" style={{ color: VERSUS_PLAYERS[roundWinner].color }}>
+              {VERSUS_PLAYERS[roundWinner].label} 赢得本局！
+            </div>
+            <button
+              onClick={() => setRound((prev) => prev + 1)}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium"
+            >
+              下一局
+            </button>
+          </div>
+        )
+      )}
+      <div style={{ width: 'min(90vw, 800px)' }}>
+        <MazeCanvas
+          width={data.maze.length}
+          height={data.maze[0]?.length ?? 0}
+          getCellColor={getCellColor}
+          dirtyCells={dirtyCells}
+          fullRedrawKey={data.maze}
+          markers={markers}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,134 @@
-import { Difficulty } from '@/types';
+import {
+  Difficulty,
+  Direction,
+  EndpointMode,
+  EnemyConfig,
+  EntityType,
+  KeyColor,
+  HintType,
+  KeyBindings,
+  MazeAlgorithm,
+  MazeFormat,
+  SolverAlgorithm,
+  Topology,
+  TopologyDirection,
+  VersusPlayer,
+  VisibilityMode,
+} from '@/types';
 
   export const MOVE_INTERVAL_MS = 50; // 按下方向键后的持续移动间隔
-  export const AUTO_MOVE_MS = 50; // 自动通关时的移动间隔
+  export const AUTO_MOVE_MS = 50; // 自动通关时的默认移动间隔
+  export const PLAYBACK_SPEED_MIN = 1; // 回放最慢速度（步/秒）
+  export const PLAYBACK_SPEED_MAX = 500; // 回放最快速度（步/秒）
+  export const GAME_TICK_MS = 16; // 游戏循环的帧间隔, 速度更快时每帧推进多步
+  export const GAME_MAX_FRAME_MS = 250; // 单帧最多推进的时间, 页面切到后台再回来时不会一下跑完
+  export const GENERATION_SPEED_DEFAULT = 200; // 生成动画的默认速度（步/秒）
+  export const CUSTOM_SIZE_MIN = 5; // 自定义迷宫的最小边长
+  export const CUSTOM_SIZE_MAX = 1001; // 自定义迷宫的最大边长
+  export const CANVAS_MAX_CELL_PX = 48; // 放大时单元格的最大像素大小
+  export const CANVAS_MAX_HEIGHT_RATIO = 0.75; // 画布高度最多占窗口高度的比例
+  export const CANVAS_ZOOM_STEP = 1.25; // 每次放大 / 缩小的倍数
+  export const RUN_HISTORY_LIMIT = 200; // 本地最多保存的游戏记录条数
+  export const LEADERBOARD_SIZE = 10; // 排行榜显示的名次数
+  export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8]; // 录像回放可选的倍速
+  export const SWIPE_MIN_DISTANCE = 24; // 滑动超过多少像素才算一次滑动
+  export const GAMEPAD_DEADZONE = 0.35; // 手柄摇杆死区, 偏移小于该值时忽略
+  export const TRAVEL_SPEED_MIN = 5; // 奔跑 / 点击寻路的最慢速度（格/秒）
+  export const TRAVEL_SPEED_MAX = 60; // 奔跑 / 点击寻路的最快速度（格/秒）, 受定时器间隔限制
+  export const TRAVEL_SPEED_DEFAULT = 20; // 奔跑 / 点击寻路的默认速度（格/秒）
+  export const REROLL_MAX_ATTEMPTS = 20; // 自动重新生成的最多尝试次数, 都不合格时使用最后一个
+  export const BAND_SAMPLE_COUNT = 40; // 把目标区间换算到其他生成方式时, 每种生成方式抽样的迷宫数
+  export const CLICK_MAX_DISTANCE = 6; // 按下到松开移动不超过多少像素算作点击
+  export const RESERVED_KEYS = ['z', 'r', 'f', 'pageup', 'pagedown']; // 撤销 / 重做和上下楼占用的按键, 不能绑定为方向
+  export const LEVEL_UP_KEYS = ['r', 'pageup']; // 多层迷宫中上楼的按键
+  export const LEVEL_DOWN_KEYS = ['f', 'pagedown']; // 多层迷宫中下楼的按键
+  export const LEVELS_MAX = 5; // 多层迷宫的最多层数
+  export const VERSUS_BEST_OF = [1, 3, 5, 7]; // 双人对战可选的局数（几局几胜）
+  export const VERSUS_BEST_OF_DEFAULT = 3; // 双人对战的默认局数
+  export const VERSUS_SHARED_TRAIL_COLOR = '#ddd6fe'; // 双人对战中两人都走过的格子的颜色
+  export const ENTITY_PLACEMENT_ATTEMPTS = 10; // 放置机关的最多尝试次数, 都无解时不放机关
+  export const ENTITY_STATE_LIMIT = 1 << 20; // 机关迷宫求解的最大状态数（格子数 x 2^钥匙和金币数）, 大迷宫按此减少钥匙和金币
+  export const ENEMY_COUNT_MAX = 5; // 敌人的最多数量
+  export const ENEMY_SPEED_MIN = 1; // 敌人的最慢速度（步/秒）
+  export const ENEMY_SPEED_MAX = 10; // 敌人的最快速度（步/秒）
+  export const ENEMY_VISION_MIN = 2; // 敌人的最小视野（格）
+  export const ENEMY_VISION_MAX = 30; // 敌人的最大视野（格）
+  export const ENEMY_SPAWN_MIN_DISTANCE = 10; // 敌人出生点离起点的最小距离（横纵坐标差之和）
+  export const ENEMY_PATROL_RADIUS = 6; // 敌人每次巡逻的目标离当前位置的最大距离
+  export const STAIR_CHANCE = 0.04; // 多层迷宫生成时每个房间可以放楼梯的概率
+  export const PRESET_BRANCHES_MAX = 2000; // 自定义难度最多的额外分支数
+  export const PRESET_BRANCH_LENGTH_MAX = 20; // 自定义难度额外分支的最大长度上限
+  export const PRESET_NAME_MAX = 12; // 自定义难度名称的最大长度
+
+/**
+ * 方向的显示名称
+ */
+export const DIRECTION_LABELS: Record<Direction, string> = {
+  [Direction.UP]: '上',
+  [Direction.DOWN]: '下',
+  [Direction.LEFT]: '左',
+  [Direction.RIGHT]: '右',
+};
+
+/**
+ * 方向的箭头符号（单向格上显示）
+ */
+export const DIRECTION_ARROWS: Record<Direction, string> = {
+  [Direction.UP]: '↑',
+  [Direction.DOWN]: '↓',
+  [Direction.LEFT]: '←',
+  [Direction.RIGHT]: '→',
+};
+
+/**
+ * 默认键位：WASD 和方向键
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  [Direction.UP]: ['w', 'arrowup'],
+  [Direction.DOWN]: ['s', 'arrowdown'],
+  [Direction.LEFT]: ['a', 'arrowleft'],
+  [Direction.RIGHT]: ['d', 'arrowright'],
+};
+
+/**
+ * 双人对战的两名玩家：1P 用 WASD, 2P 用方向键（不使用自定义键位）
+ */
+export const VERSUS_PLAYERS: VersusPlayer[] = [
+  {
+    label: '1P',
+    keysLabel: 'WASD',
+    color: '#2563eb',
+    trailColor: '#bfdbfe',
+    bindings: {
+      [Direction.UP]: ['w'],
+      [Direction.DOWN]: ['s'],
+      [Direction.LEFT]: ['a'],
+      [Direction.RIGHT]: ['d'],
+    },
+  },
+  {
+    label: '2P',
+    keysLabel: '方向键',
+    color: '#dc2626',
+    trailColor: '#fecaca',
+    bindings: {
+      [Direction.UP]: ['arrowup'],
+      [Direction.DOWN]: ['arrowdown'],
+      [Direction.LEFT]: ['arrowleft'],
+      [Direction.RIGHT]: ['arrowright'],
+    },
+  },
+];
 
 /**
  * 难度配置
  * 密度越高，迷宫越大，难度越高
+ * braid 越高环路越多，可选路线越多
+ * visionRadius 为开启视野限制时能看到的半径, 迷宫越大视野越小
+ * hints 为每局可用的提示次数, hintLength 为路线提示显示的格数
+ * band 为目标区间：开启自动重新生成时, 最短路线占比不在区间内的迷宫会被丢弃重来
+ * band 是按 BAND_CALIBRATION 的生成方式统计的, 其他算法或起终点位置按分位换算（见 getDifficultyBand）
+ * entities 为开启机关时各类机关的数量
  */
 export const DIFFICULTY_CONFIG = {
   [Difficulty.EASY]: {
@@ -14,6 +137,13 @@ export const DIFFICULTY_CONFIG = {
     description: '小迷宫，适合新手',
     branches: 8,
     branchMaxLength: 3,
+    braid: 0,
+    visionRadius: 6,
+    hints: 5,
+    hintLength: 8,
+    band: { minSolutionRatio: 0.3, maxSolutionRatio: 0.65 },
+    entities: { doors: 1, coins: 3, teleporters: 1, oneWays: 1 },
+    algorithm: MazeAlgorithm.BACKTRACKING,
   },
   [Difficulty.MEDIUM]: {
     label: '中等',
@@ -21,6 +151,13 @@ export const DIFFICULTY_CONFIG = {
     description: '中等大小，增加适量死路',
     branches: 22,
     branchMaxLength: 4,
+    braid: 0.15,
+    visionRadius: 5,
+    hints: 3,
+    hintLength: 6,
+    band: { minSolutionRatio: 0.2, maxSolutionRatio: 0.45 },
+    entities: { doors: 2, coins: 4, teleporters: 1, oneWays: 2 },
+    algorithm: MazeAlgorithm.BACKTRACKING,
   },
   [Difficulty.HARD]: {
     label: '困难',
@@ -28,5 +165,308 @@ export const DIFFICULTY_CONFIG = {
     description: '大型迷宫，更多死路',
     branches: 40,
     branchMaxLength: 5,
+    braid: 0.3,
+    visionRadius: 4,
+    hints: 2,
+    hintLength: 4,
+    band: { minSolutionRatio: 0.14, maxSolutionRatio: 0.3 },
+    entities: { doors: 3, coins: 5, teleporters: 2, oneWays: 3 },
+    algorithm: MazeAlgorithm.BACKTRACKING,
+  },
+} as const;
+
+/**
+ * 难度目标区间统计时使用的生成算法和起终点位置
+ */
+export const BAND_CALIBRATION = {
+  algorithm: MazeAlgorithm.BACKTRACKING,
+  endpoints: EndpointMode.CORNERS,
+} as const;
+
+/**
+ * 自定义难度的其他配置：尺寸和分支由预设决定, 其余项不再沿用当前选中的内置难度
+ * 自定义难度的尺寸不固定, 没有目标区间, 不参与自动重新生成
+ */
+export const CUSTOM_PRESET_CONFIG = {
+  braid: 0,
+  visionRadius: 5,
+  hints: 3,
+  hintLength: 6,
+  entities: { doors: 2, coins: 4, teleporters: 1, oneWays: 2 },
+} as const;
+
+/**
+ * 画布上各类格子的颜色
+ */
+export const CELL_COLORS = {
+  path: '#ffffff',
+  wall: '#1f2937',
+  branch: '#e9d5ff',
+  trail: '#fde047',
+  frontier: '#38bdf8',
+  visited: '#e0f2fe',
+  genHead: '#ef4444',
+  player: '#2563eb',
+  end: '#22c55e',
+  fog: '#111827',
+  exploredPath: '#9ca3af',
+  exploredWall: '#374151',
+  hint: '#4ade80',
+  stairUp: '#f97316',
+  stairDown: '#a855f7',
+  stairBoth: '#db2777',
+  coin: '#f59e0b',
+  teleporter: '#8b5cf6',
+  oneWay: '#0f766e',
+  enemyPatrol: '#fb7185',
+  enemyChase: '#be123c',
+} as const;
+
+/**
+ * 默认的敌人设置
+ */
+export const DEFAULT_ENEMY_CONFIG: EnemyConfig = {
+  count: 2,
+  speed: 3,
+  vision: 8,
+};
+
+/**
+ * 钥匙和门的颜色配置, 门的数量不能超过颜色数
+ */
+export const KEY_COLOR_CONFIG = {
+  [KeyColor.RED]: { label: '红', color: '#dc2626' },
+  [KeyColor.BLUE]: { label: '蓝', color: '#0284c7' },
+  [KeyColor.YELLOW]: { label: '黄', color: '#ca8a04' },
+} as const;
+
+/**
+ * 机关的显示名称
+ */
+export const ENTITY_LABELS: Record<EntityType, string> = {
+  [EntityType.KEY]: '钥匙',
+  [EntityType.DOOR]: '门',
+  [EntityType.COIN]: '金币',
+  [EntityType.TELEPORTER]: '传送门',
+  [EntityType.ONE_WAY]: '单向格',
+};
+
+/**
+ * 手动足迹热力图颜色：按同一格经过的次数从浅到深, 超过长度时使用最后一种颜色
+ */
+export const HEATMAP_COLORS = ['#fef9c3', '#fde68a', '#fcd34d', '#fbbf24', '#f97316', '#ea580c'] as const;
+
+/**
+ * 生成算法配置
+ */
+export const ALGORITHM_CONFIG = {
+  [MazeAlgorithm.BACKTRACKING]: {
+    label: '递归回溯',
+    description: '长而曲折的走廊，分叉少',
+  },
+  [MazeAlgorithm.PRIM]: {
+    label: 'Prim',
+    description: '分叉多，走廊短，死路多',
+  },
+  [MazeAlgorithm.KRUSKAL]: {
+    label: 'Kruskal',
+    description: '随机打通墙壁，分布均匀',
+  },
+  [MazeAlgorithm.WILSON]: {
+    label: 'Wilson',
+    description: '均匀生成树，无明显纹理',
+  },
+  [MazeAlgorithm.ELLER]: {
+    label: 'Eller',
+    description: '逐行生成，横向走廊较多',
+  },
+  [MazeAlgorithm.BINARY_TREE]: {
+    label: '二叉树',
+    description: '顶行和左列是贯通的长走廊',
+  },
+  [MazeAlgorithm.RECURSIVE_DIVISION]: {
+    label: '递归分割',
+    description: '长直墙壁，房间感强',
   },
 } as const;
+
+/**
+ * 导出格式名称
+ */
+export const MAZE_FORMAT_LABELS = {
+  [MazeFormat.ASCII]: 'ASCII 文本',
+  [MazeFormat.JSON]: 'JSON',
+  [MazeFormat.CODE]: '链接码',
+} as const;
+
+/**
+ * 寻路算法配置
+ */
+export const SOLVER_CONFIG = {
+  [SolverAlgorithm.BFS]: {
+    label: '广度优先',
+    description: '逐层扩展，保证最短',
+  },
+  [SolverAlgorithm.A_STAR]: {
+    label: 'A*',
+    description: '曼哈顿距离启发，朝终点搜索，保证最短',
+  },
+  [SolverAlgorithm.BIDIRECTIONAL_BFS]: {
+    label: '双向广度优先',
+    description: '起点终点同时搜索，相遇即停，保证最短',
+  },
+  [SolverAlgorithm.LEFT_HAND]: {
+    label: '左手扶墙',
+    description: '始终贴着左侧墙走，不保证最短',
+  },
+  [SolverAlgorithm.RIGHT_HAND]: {
+    label: '右手扶墙',
+    description: '始终贴着右侧墙走，不保证最短',
+  },
+  [SolverAlgorithm.TREMAUX]: {
+    label: 'Trémaux',
+    description: '给走过的通道做记号，不保证最短',
+  },
+  [SolverAlgorithm.DEAD_END_FILLING]: {
+    label: '死路填充',
+    description: '填掉所有死路，剩下的就是解',
+  },
+} as const;
+
+/**
+ * 视野模式配置
+ */
+export const VISIBILITY_CONFIG = {
+  [VisibilityMode.FULL]: {
+    label: '全图可见',
+    description: '整个迷宫一开始就可见',
+  },
+  [VisibilityMode.RADIUS]: {
+    label: '半径视野',
+    description: '只能看到身边一定范围，走过的地方会被记住',
+  },
+  [VisibilityMode.LINE_OF_SIGHT]: {
+    label: '视线视野',
+    description: '只能看到视线没有被墙挡住的地方，走过的地方会被记住',
+  },
+} as const;
+
+/**
+ * 起终点位置配置
+ */
+export const ENDPOINT_CONFIG = {
+  [EndpointMode.CORNERS]: {
+    label: '对角',
+    description: '从左上角出发，终点在右下角',
+  },
+  [EndpointMode.RANDOM]: {
+    label: '随机',
+    description: '起点和终点随机放在两个路格上',
+  },
+  [EndpointMode.EDGE_OPENINGS]: {
+    label: '外墙出入口',
+    description: '入口和出口开在相对两侧的外墙上',
+  },
+  [EndpointMode.FARTHEST]: {
+    label: '最远两点',
+    description: '选择迷宫中最短路线最长的两个格子',
+  },
+} as const;
+
+/**
+ * 提示类型配置, penalty 为每次使用扣除的分数
+ */
+export const HINT_CONFIG = {
+  [HintType.PATH]: {
+    label: '路线提示',
+    description: '显示最短路线接下来的几格',
+    penalty: 10,
+  },
+  [HintType.DIRECTION]: {
+    label: '方向提示',
+    description: '只告诉你下一个岔路口该往哪走',
+    penalty: 5,
+  },
+} as const;
+
+/**
+ * 迷宫拓扑配置
+ */
+export const TOPOLOGY_CONFIG = {
+  [Topology.SQUARE]: {
+    label: '方格',
+    description: '经典的方格迷宫，支持全部功能',
+  },
+  [Topology.HEX]: {
+    label: '六边形',
+    description: '每个格子有六个方向，Q / E / A / D / Z / C 移动',
+  },
+  [Topology.TRIANGLE]: {
+    label: '三角形',
+    description: '尖朝上的格子只能向下离开，尖朝下的只能向上离开',
+  },
+  [Topology.THETA]: {
+    label: '圆形',
+    description: '从最外圈走到圆心，A / D 沿圆环转动，W / S 向外 / 向内',
+  },
+} as const;
+
+/**
+ * 非方格拓扑的方向显示名称
+ */
+export const TOPOLOGY_DIRECTION_LABELS: Record<TopologyDirection, string> = {
+  [TopologyDirection.UP]: '上',
+  [TopologyDirection.DOWN]: '下',
+  [TopologyDirection.LEFT]: '左',
+  [TopologyDirection.RIGHT]: '右',
+  [TopologyDirection.UP_LEFT]: '左上',
+  [TopologyDirection.UP_RIGHT]: '右上',
+  [TopologyDirection.DOWN_LEFT]: '左下',
+  [TopologyDirection.DOWN_RIGHT]: '右下',
+  [TopologyDirection.CW]: '顺时针',
+  [TopologyDirection.CCW]: '逆时针',
+  [TopologyDirection.IN]: '向内',
+  [TopologyDirection.OUT]: '向外',
+};
+
+/**
+ * 非方格拓扑的按键映射（小写）, 一个按键可以对应多个方向, 按顺序尝试第一个打通的方向
+ * 方向键在六边形中对应两个斜向, 在圆形中左右为逆 / 顺时针、上下为向外 / 向内
+ */
+export const TOPOLOGY_KEY_BINDINGS: Record<
+  Exclude<Topology, Topology.SQUARE>,
+  Record<string, TopologyDirection[]>
+> = {
+  [Topology.HEX]: {
+    q: [TopologyDirection.UP_LEFT],
+    e: [TopologyDirection.UP_RIGHT],
+    a: [TopologyDirection.LEFT],
+    d: [TopologyDirection.RIGHT],
+    z: [TopologyDirection.DOWN_LEFT],
+    c: [TopologyDirection.DOWN_RIGHT],
+    arrowleft: [TopologyDirection.LEFT],
+    arrowright: [TopologyDirection.RIGHT],
+    arrowup: [TopologyDirection.UP_LEFT, TopologyDirection.UP_RIGHT],
+    arrowdown: [TopologyDirection.DOWN_LEFT, TopologyDirection.DOWN_RIGHT],
+  },
+  [Topology.TRIANGLE]: {
+    w: [TopologyDirection.UP],
+    s: [TopologyDirection.DOWN],
+    a: [TopologyDirection.LEFT],
+    d: [TopologyDirection.RIGHT],
+    arrowup: [TopologyDirection.UP],
+    arrowdown: [TopologyDirection.DOWN],
+    arrowleft: [TopologyDirection.LEFT],
+    arrowright: [TopologyDirection.RIGHT],
+  },
+  [Topology.THETA]: {
+    w: [TopologyDirection.OUT],
+    s: [TopologyDirection.IN],
+    a: [TopologyDirection.CCW],
+    d: [TopologyDirection.CW],
+    arrowup: [TopologyDirection.OUT],
+    arrowdown: [TopologyDirection.IN],
+    arrowleft: [TopologyDirection.CCW],
+    arrowright: [TopologyDirection.CW],
+  },
+};
@@ -0,0 +1,142 @@
+import { AnalysisBand, Cell, Difficulty, EndpointMode, MazeAlgorithm, MazeAnalysis, Position } from '@/types';
+import { BAND_CALIBRATION, BAND_SAMPLE_COUNT, DIFFICULTY_CONFIG } from '@/constants';
+import { findShortestPath, generateMazeGrid } from '@/lib/mazeUtils';
+import { createSeededRandom } from '@/lib/random';
+
+const OFFSETS = [
+  [0, -1],
+  [0, 1],
+  [-1, 0],
+  [1, 0],
+];
+
+/**
+ * 定义 分析迷宫结构的函数
+ * 按出口数把路格分为死路（1）、走廊（2）和岔路口（3+）, 走廊相连的一段视为一条通道
+ */
+export const analyzeMaze = (maze: Cell[][], start: Position, end: Position): MazeAnalysis => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const isOpen = (x: number, y: number) => maze[x]?.[y] === 1;
+  const degree = (x: number, y: number) => OFFSETS.filter(([dx, dy]) => isOpen(x + dx, y + dy)).length;
+
+  let openCells = 0;
+  let deadEnds = 0;
+  let junctions = 0;
+  let corridorCells = 0;
+  let nodeDegreeSum = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (!isOpen(x, y)) continue;
+      openCells++;
+      const d = degree(x, y);
+      if (d === 2) {
+        corridorCells++;
+        continue;
+      }
+      if (d === 1) deadEnds++;
+      if (d >= 3) junctions++;
+      nodeDegreeSum += d;
+    }
+  }
+
+  // 最长走廊：出口数为 2 的格子组成的连通块中最大的一块
+  let longestCorridor = 0;
+  const seen = new Uint8Array(width * height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (seen[x * height + y] || !isOpen(x, y) || degree(x, y) !== 2) continue;
+      let size = 0;
+      const stack = [[x, y]];
+      seen[x * height + y] = 1;
+      while (stack.length > 0) {
+        const [cx, cy] = stack.pop() as number[];
+        size++;
+        for (const [dx, dy] of OFFSETS) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (seen[nx * height + ny] || !isOpen(nx, ny) || degree(nx, ny) !== 2) continue;
+          seen[nx * height + ny] = 1;
+          stack.push([nx, ny]);
+        }
+      }
+      longestCorridor = Math.max(longestCorridor, size);
+    }
+  }
+
+  // 每条通道连接两个节点, 通道数 = 节点出口数之和 / 2
+  const segments = nodeDegreeSum / 2;
+  const path = findShortestPath(maze, start, end);
+  return {
+    openCells,
+    solutionLength: path.length - 1,
+    deadEnds,
+    junctions,
+    riverFactor: segments > 0 ? corridorCells / segments : corridorCells,
+    longestCorridor,
+    solutionRatio: openCells > 0 ? path.length / openCells : 0,
+  };
+};
+
+/**
+ * 定义 判断分析结果是否落在目标区间内的函数
+ */
+export const isWithinBand = (analysis: MazeAnalysis, band: AnalysisBand): boolean =>
+  analysis.solutionLength >= 0 &&
+  analysis.solutionRatio >= band.minSolutionRatio &&
+  analysis.solutionRatio <= band.maxSolutionRatio;
+
+/**
+ * 定义 用固定种子抽样生成某个难度的迷宫, 返回从小到大排列的最短路线占比的函数
+ */
+const sampleSolutionRatios = (difficulty: Difficulty, algorithm: MazeAlgorithm, endpoints: EndpointMode): number[] => {
+  const { size, branches, branchMaxLength, braid } = DIFFICULTY_CONFIG[difficulty];
+  return Array.from({ length: BAND_SAMPLE_COUNT }, (_, i) => {
+    const { maze, start, end } = generateMazeGrid(size, size, {
+      branches,
+      branchMaxLength,
+      braid,
+      algorithm,
+      endpoints,
+      random: createSeededRandom(i + 1),
+    });
+    return analyzeMaze(maze, start, end).solutionRatio;
+  }).sort((a, b) => a - b);
+};
+
+/**
+ * 定义 取一个值使样本中恰好有 count 个小于它的函数, 取相邻两个样本的中点；超出样本范围时取 0 或 1
+ */
+const getBoundAt = (sorted: number[], count: number): number => {
+  if (count <= 0) return 0;
+  if (count >= sorted.length) return 1;
+  return (sorted[count - 1] + sorted[count]) / 2;
+};
+
+const difficultyBands = new Map<string, AnalysisBand>();
+
+/**
+ * 定义 获取难度目标区间的函数, 换算到指定的生成算法和起终点位置
+ * 不同生成方式的最短路线占比分布差别很大（如 Prim 算法的路线普遍更短）, 直接沿用统计时的区间几乎不会落在区间内
+ * 换算方法：两种生成方式各抽样 BAND_SAMPLE_COUNT 个迷宫, 区间两端在统计时的分布中处于什么分位, 就取新分布中相同分位的值
+ * 抽样使用固定种子, 结果不随机；每种组合只计算一次
+ */
+export const getDifficultyBand = (
+  difficulty: Difficulty,
+  algorithm: MazeAlgorithm,
+  endpoints: EndpointMode
+): AnalysisBand => {
+  const band = DIFFICULTY_CONFIG[difficulty].band;
+  if (algorithm === BAND_CALIBRATION.algorithm && endpoints === BAND_CALIBRATION.endpoints) return band;
+  const cacheKey = `${difficulty}-${algorithm}-${endpoints}`;
+  const cached = difficultyBands.get(cacheKey);
+  if (cached) return cached;
+  const reference = sampleSolutionRatios(difficulty, BAND_CALIBRATION.algorithm, BAND_CALIBRATION.endpoints);
+  const samples = sampleSolutionRatios(difficulty, algorithm, endpoints);
+  const calibrated = {
+    minSolutionRatio: getBoundAt(samples, reference.filter((ratio) => ratio < band.minSolutionRatio).length),
+    maxSolutionRatio: getBoundAt(samples, reference.filter((ratio) => ratio <= band.maxSolutionRatio).length),
+  };
+  difficultyBands.set(cacheKey, calibrated);
+  return calibrated;
+};
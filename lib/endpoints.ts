@@ -0,0 +1,119 @@
+import { Cell, EndpointMode, GenerationEvent, GenerationEventType, Position, RandomFn } from '@/types';
+import { randomInt } from '@/lib/random';
+
+const OFFSETS = [
+  [0, -1],
+  [0, 1],
+  [-1, 0],
+  [1, 0],
+];
+
+/**
+ * 放置结果：起点、终点, 以及外墙出入口（只用于显示）
+ */
+export type Endpoints = {
+  start: Position;
+  end: Position;
+  openings: Position[];
+};
+
+/**
+ * 定义 从指定格子广度优先搜索, 返回最短路最远的格子的函数
+ * 与 findShortestPath 一致, 只在内部（不含边界）的路格中搜索
+ */
+const findFarthestCell = (maze: Cell[][], from: Position): Position => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const visited = new Uint8Array(width * height);
+  const queue: Position[] = [from];
+  visited[from.x * height + from.y] = 1;
+  let head = 0;
+  // 按层出队, 最后入队的就是最远的格子
+  while (head < queue.length) {
+    const current = queue[head++];
+    for (const [dx, dy] of OFFSETS) {
+      const nx = current.x + dx;
+      const ny = current.y + dy;
+      if (nx < 1 || nx >= width - 1 || ny < 1 || ny >= height - 1) continue;
+      if (visited[nx * height + ny] || maze[nx][ny] !== 1) continue;
+      visited[nx * height + ny] = 1;
+      queue.push({ x: nx, y: ny });
+    }
+  }
+  return queue[queue.length - 1];
+};
+
+/**
+ * 定义 收集所有内部路格的函数
+ */
+const getOpenCells = (maze: Cell[][]): Position[] => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const cells: Position[] = [];
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 1; y < height - 1; y++) {
+      if (maze[x][y] === 1) cells.push({ x, y });
+    }
+  }
+  return cells;
+};
+
+/**
+ * 定义 按模式放置起点和终点的函数
+ * 需要时把起终点打通为路（记录 CARVE 事件）；FARTHEST 用两次 BFS 找出迷宫中相距最远的两个格子
+ */
+export const placeEndpoints = (
+  maze: Cell[][],
+  mode: EndpointMode,
+  random: RandomFn,
+  events?: GenerationEvent[]
+): Endpoints => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  // 定义 打通一个格子的函数
+  const carve = (pos: Position) => {
+    if (maze[pos.x][pos.y] === 1) return;
+    maze[pos.x][pos.y] = 1;
+    events?.push({ type: GenerationEventType.CARVE, pos });
+  };
+  // 房间在奇数坐标上, 取 [1, size - 2] 中的随机奇数
+  const randomRoom = (size: number) => randomInt(random, (size - 1) / 2) * 2 + 1;
+
+  switch (mode) {
+    case EndpointMode.RANDOM: {
+      const cells = getOpenCells(maze);
+      const start = cells[randomInt(random, cells.length)];
+      const rest = cells.filter((cell) => cell !== start);
+      const end = rest.length > 0 ? rest[randomInt(random, rest.length)] : start;
+      return { start, end, openings: [] };
+    }
+    case EndpointMode.EDGE_OPENINGS: {
+      // 随机选择左右或上下两侧, 入口和出口分别在两侧外墙上
+      if (random() < 0.5) {
+        const start = { x: 1, y: randomRoom(height) };
+        const end = { x: width - 2, y: randomRoom(height) };
+        carve(start);
+        carve(end);
+        return { start, end, openings: [{ x: 0, y: start.y }, { x: width - 1, y: end.y }] };
+      }
+      const start = { x: randomRoom(width), y: 1 };
+      const end = { x: randomRoom(width), y: height - 2 };
+      carve(start);
+      carve(end);
+      return { start, end, openings: [{ x: start.x, y: 0 }, { x: end.x, y: height - 1 }] };
+    }
+    case EndpointMode.FARTHEST: {
+      // 第一次 BFS 找到离任意格子最远的 A, 第二次从 A 出发找到最远的 B
+      const start = findFarthestCell(maze, { x: 1, y: 1 });
+      const end = findFarthestCell(maze, start);
+      return { start, end, openings: [] };
+    }
+    default: {
+      const start = { x: 1, y: 1 };
+      const end = { x: width - 2, y: height - 2 };
+      carve(start);
+      carve(end);
+      return { start, end, openings: [] };
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import { Cell, Enemy, EnemyMode, Position, RandomFn } from '@/types';
+import { ENEMY_PATROL_RADIUS, ENEMY_SPAWN_MIN_DISTANCE } from '@/constants';
+import { findShortestPath } from '@/lib/mazeUtils';
+import { randomInt, shuffle } from '@/lib/random';
+
+/**
+ * 定义 计算两格横纵坐标差之和的函数, 不会大于两格之间的路线长度
+ */
+const manhattan = (a: Position, b: Position): number => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+/**
+ * 定义 放置敌人的函数：随机选离起点足够远的内部路格（不含终点）
+ * 迷宫太小找不到足够的格子时放得少一些
+ */
+export const spawnEnemies = (
+  maze: Cell[][],
+  start: Position,
+  end: Position,
+  count: number,
+  random: RandomFn
+): Enemy[] => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const candidates: Position[] = [];
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 1; y < height - 1; y++) {
+      const pos = { x, y };
+      if (maze[x][y] !== 1 || (x === end.x && y === end.y)) continue;
+      if (manhattan(pos, start) >= ENEMY_SPAWN_MIN_DISTANCE) candidates.push(pos);
+    }
+  }
+  shuffle(candidates, random);
+  return candidates.slice(0, count).map((pos, id) => ({ id, pos, mode: EnemyMode.PATROL, route: [] }));
+};
+
+/**
+ * 定义 生成巡逻路线的函数：在当前位置附近随机选一个路格, 沿最短路线走过去
+ * 选中墙时返回空路线, 下一步再重新选
+ */
+const createPatrolRoute = (maze: Cell[][], from: Position, random: RandomFn): Position[] => {
+  const target = {
+    x: from.x + randomInt(random, ENEMY_PATROL_RADIUS * 2 + 1) - ENEMY_PATROL_RADIUS,
+    y: from.y + randomInt(random, ENEMY_PATROL_RADIUS * 2 + 1) - ENEMY_PATROL_RADIUS,
+  };
+  if (maze[target.x]?.[target.y] !== 1) return [];
+  return findShortestPath(maze, from, target).slice(1);
+};
+
+/**
+ * 定义 让一个敌人走一步的函数
+ * 玩家在视野内（沿路线不超过 vision 格）时沿最短路线追赶, 否则继续巡逻；跟丢后从所在位置重新巡逻
+ */
+export const stepEnemy = (
+  maze: Cell[][],
+  enemy: Enemy,
+  player: Position,
+  vision: number,
+  random: RandomFn
+): Enemy => {
+  // 横纵坐标差之和已经超出视野时不可能看到, 省去一次搜索
+  if (manhattan(enemy.pos, player) <= vision) {
+    const path = findShortestPath(maze, enemy.pos, player);
+    if (path.length > 0 && path.length - 1 <= vision) {
+      return { ...enemy, pos: path[1] ?? enemy.pos, mode: EnemyMode.CHASE, route: [] };
+    }
+  }
+  const route = enemy.route.length > 0 ? enemy.route : createPatrolRoute(maze, enemy.pos, random);
+  return { ...enemy, pos: route[0] ?? enemy.pos, mode: EnemyMode.PATROL, route: route.slice(1) };
+};
+
+/**
+ * 定义 判断玩家是否被敌人抓住（与敌人在同一格）的函数
+ */
+export const isCaughtBy = (enemies: Enemy[], player: Position): boolean =>
+  enemies.some(({ pos }) => pos.x === player.x && pos.y === player.y);
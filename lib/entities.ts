@@ -0,0 +1,375 @@
+import { Cell, Direction, EntityConfig, EntityType, KeyColor, MazeEntity, Position, RandomFn } from '@/types';
+import { ENTITY_PLACEMENT_ATTEMPTS, ENTITY_STATE_LIMIT } from '@/constants';
+import { randomInt, shuffle } from '@/lib/random';
+
+/**
+ * 说明：机关放在路格上, 不改变 maze 本身；移动规则只在这里实现一次, 玩家移动、录像和求解共用
+ */
+
+const OFFSETS: Record<Direction, [number, number]> = {
+  [Direction.UP]: [0, -1],
+  [Direction.DOWN]: [0, 1],
+  [Direction.LEFT]: [-1, 0],
+  [Direction.RIGHT]: [1, 0],
+};
+const DIRECTIONS = Object.keys(OFFSETS) as Direction[];
+
+/**
+ * 定义 生成位置键的函数, 与游戏中其他 "x,y" 键一致
+ */
+export const entityKey = (pos: Position): string => `${pos.x},${pos.y}`;
+
+/**
+ * 定义 按位置索引机关的函数
+ */
+export const createEntityIndex = (entities: MazeEntity[]): Map<string, MazeEntity> =>
+  new Map(entities.map((entity) => [entityKey(entity.pos), entity]));
+
+/**
+ * 定义 判断是否为内部路格的函数, 与 findShortestPath 一致不含边界
+ */
+const isOpen = (maze: Cell[][], { x, y }: Position): boolean =>
+  x >= 1 && x < maze.length - 1 && y >= 1 && y < (maze[0]?.length ?? 0) - 1 && maze[x][y] === 1;
+
+/**
+ * 定义 按机关规则朝某个方向走一步的函数, 不能走时返回 null
+ * 单向格进入和离开都只能沿箭头方向；没有同色钥匙时门不能通过；走上传送门时直接到达配对的传送门
+ * entityAt 查找某格上的机关：玩家移动时按位置键查找, 求解时按格子下标查找
+ */
+const step = (
+  maze: Cell[][],
+  entityAt: (pos: Position) => MazeEntity | undefined,
+  from: Position,
+  direction: Direction,
+  hasKey: (color: KeyColor) => boolean
+): Position | null => {
+  const [dx, dy] = OFFSETS[direction];
+  const next = { x: from.x + dx, y: from.y + dy };
+  if (!isOpen(maze, next)) return null;
+  const current = entityAt(from);
+  if (current?.type === EntityType.ONE_WAY && current.direction !== direction) return null;
+  const entity = entityAt(next);
+  switch (entity?.type) {
+    case EntityType.ONE_WAY:
+      return entity.direction === direction ? next : null;
+    case EntityType.DOOR:
+      return hasKey(entity.color) ? next : null;
+    case EntityType.TELEPORTER:
+      return entity.target;
+    default:
+      return next;
+  }
+};
+
+/**
+ * 定义 玩家按方向移动的函数, collected 为已收集的钥匙和金币的位置键, 不能走时返回 null
+ */
+export const getEntityMove = (
+  maze: Cell[][],
+  index: Map<string, MazeEntity>,
+  from: Position,
+  direction: Direction,
+  collected: Set<string>
+): Position | null =>
+  step(maze, (pos) => index.get(entityKey(pos)), from, direction, (color) =>
+    [...collected].some((key) => {
+      const entity = index.get(key);
+      return entity?.type === EntityType.KEY && entity.color === color;
+    })
+  );
+
+/**
+ * 定义 查找从 from 走一步到达 to 的方向的函数（包括走上传送门后到达配对的传送门）, 到达不了时返回 null
+ */
+export const getEntityDirection = (
+  maze: Cell[][],
+  index: Map<string, MazeEntity>,
+  from: Position,
+  to: Position,
+  collected: Set<string>
+): Direction | null =>
+  DIRECTIONS.find((direction) => {
+    const next = getEntityMove(maze, index, from, direction, collected);
+    return next?.x === to.x && next?.y === to.y;
+  }) ?? null;
+
+/**
+ * 定义 收集指定位置的钥匙或金币的函数, 没有可收集的物品时返回原集合
+ */
+export const collectAt = (index: Map<string, MazeEntity>, pos: Position, collected: Set<string>): Set<string> => {
+  const key = entityKey(pos);
+  const entity = index.get(key);
+  if (collected.has(key) || (entity?.type !== EntityType.KEY && entity?.type !== EntityType.COIN)) return collected;
+  return new Set(collected).add(key);
+};
+
+/**
+ * 定义 统计已收集的金币数和金币总数的函数
+ */
+export const countCoins = (entities: MazeEntity[], collected: Set<string>) => {
+  const coins = entities.filter((entity) => entity.type === EntityType.COIN);
+  return {
+    collected: coins.filter((coin) => collected.has(entityKey(coin.pos))).length,
+    total: coins.length,
+  };
+};
+
+/**
+ * 定义 判断是否集齐所有金币的函数, 集齐后终点才开放
+ */
+export const hasAllCoins = (entities: MazeEntity[], collected: Set<string>): boolean => {
+  const { collected: count, total } = countCoins(entities, collected);
+  return count === total;
+};
+
+/**
+ * 定义 判断机关迷宫的状态数是否超过求解上限的函数
+ * 状态数为格子数 x 2^(钥匙数 + 金币数), 超过 ENTITY_STATE_LIMIT 时求解太慢、占用内存太多
+ */
+export const exceedsEntityStateLimit = (width: number, height: number, itemCount: number): boolean =>
+  width * height * 2 ** itemCount > ENTITY_STATE_LIMIT;
+
+/**
+ * 定义 求解带机关迷宫的函数
+ * 在（位置, 已收集物品）组成的状态空间中广度优先搜索, 同一格子拿着不同钥匙算不同状态
+ * 到达终点并集齐金币时结束, 返回最短路线（传送时相邻两格不相连）和访问过的格子；无解时路线为空
+ * 状态数不能超过 ENTITY_STATE_LIMIT（生成和导入时已经限制）
+ */
+export const solveEntityMaze = (
+  maze: Cell[][],
+  entities: MazeEntity[],
+  start: Position,
+  end: Position,
+  collected: Set<string> = new Set()
+): { path: Position[]; visited: Position[] } => {
+  const height = maze[0]?.length ?? 0;
+  const cellCount = maze.length * height;
+  const cellOf = ({ x, y }: Position) => x * height + y;
+  const toPos = (cell: number): Position => ({ x: Math.floor(cell / height), y: cell % height });
+  const grid: (MazeEntity | undefined)[] = new Array(cellCount);
+  entities.forEach((entity) => {
+    grid[cellOf(entity.pos)] = entity;
+  });
+  const entityAt = (pos: Position) => grid[cellOf(pos)];
+
+  // 每个钥匙和金币占用掩码中的一位, itemBits 记录每格上的物品对应的位
+  const items = entities.filter((entity) => entity.type === EntityType.KEY || entity.type === EntityType.COIN);
+  const itemBits = new Int32Array(cellCount);
+  items.forEach((item, i) => {
+    itemBits[cellOf(item.pos)] = 1 << i;
+  });
+  const stateCount = 1 << items.length;
+  const coinMask = items.reduce((mask, item, i) => (item.type === EntityType.COIN ? mask | (1 << i) : mask), 0);
+  const keyMask = (color: KeyColor) =>
+    items.reduce((mask, item, i) => (item.type === EntityType.KEY && item.color === color ? mask | (1 << i) : mask), 0);
+  const colorMasks = new Map(Object.values(KeyColor).map((color) => [color, keyMask(color)]));
+
+  // 状态编码为 格子下标 * 2^物品数 + 掩码；prev 记录前驱状态, -1 表示未访问
+  const prev = new Int32Array(cellCount * stateCount).fill(-1);
+  const queue = new Int32Array(cellCount * stateCount);
+  const seen = new Uint8Array(cellCount);
+  const visited: Position[] = [];
+  const initialMask =
+    items.reduce((mask, item, i) => (collected.has(entityKey(item.pos)) ? mask | (1 << i) : mask), 0) |
+    itemBits[cellOf(start)];
+  const first = cellOf(start) * stateCount + initialMask;
+  prev[first] = first;
+  queue[0] = first;
+  let tail = 1;
+  let goal = -1;
+  for (let head = 0; head < tail; head++) {
+    const state = queue[head];
+    const mask = state % stateCount;
+    const cell = (state - mask) / stateCount;
+    const pos = toPos(cell);
+    if (!seen[cell]) {
+      seen[cell] = 1;
+      visited.push(pos);
+    }
+    if (pos.x === end.x && pos.y === end.y && (mask & coinMask) === coinMask) {
+      goal = state;
+      break;
+    }
+    const hasKey = (color: KeyColor) => (mask & (colorMasks.get(color) ?? 0)) !== 0;
+    for (const direction of DIRECTIONS) {
+      const next = step(maze, entityAt, pos, direction, hasKey);
+      if (!next) continue;
+      const nextCell = cellOf(next);
+      const nextState = nextCell * stateCount + (mask | itemBits[nextCell]);
+      if (prev[nextState] !== -1) continue;
+      prev[nextState] = state;
+      queue[tail++] = nextState;
+    }
+  }
+
+  if (goal === -1) return { path: [], visited };
+  const path: Position[] = [];
+  for (let state = goal; ; state = prev[state]) {
+    path.push(toPos(Math.floor(state / stateCount)));
+    if (state === first) break;
+  }
+  return { path: path.reverse(), visited };
+};
+
+/**
+ * 定义 不考虑机关广度优先搜索的函数, blocked 中的格子当作墙
+ * 返回按到达顺序排列的格子, 以及每个格子（下标 x * height + y）的前驱下标, 未到达的为 -1
+ */
+const searchFrom = (
+  maze: Cell[][],
+  from: Position,
+  blocked: Position[]
+): { reached: Position[]; prev: Int32Array } => {
+  const height = maze[0]?.length ?? 0;
+  const cellOf = ({ x, y }: Position) => x * height + y;
+  const prev = new Int32Array(maze.length * height).fill(-1);
+  const closed = new Uint8Array(maze.length * height);
+  blocked.forEach((pos) => {
+    closed[cellOf(pos)] = 1;
+  });
+  prev[cellOf(from)] = cellOf(from);
+  const reached = [from];
+  for (let head = 0; head < reached.length; head++) {
+    const current = reached[head];
+    for (const [dx, dy] of Object.values(OFFSETS)) {
+      const next = { x: current.x + dx, y: current.y + dy };
+      if (!isOpen(maze, next)) continue;
+      const cell = cellOf(next);
+      if (prev[cell] !== -1 || closed[cell]) continue;
+      prev[cell] = cellOf(current);
+      reached.push(next);
+    }
+  }
+  return { reached, prev };
+};
+
+/**
+ * 定义 判断是否为直走廊格子的函数：只有相对的两个方向是路, 放门或单向格时不会被绕开
+ */
+const isStraightCorridor = (maze: Cell[][], { x, y }: Position): boolean => {
+  const open = (dx: number, dy: number) => isOpen(maze, { x: x + dx, y: y + dy });
+  const vertical = open(0, -1) && open(0, 1) && !open(-1, 0) && !open(1, 0);
+  const horizontal = open(-1, 0) && open(1, 0) && !open(0, -1) && !open(0, 1);
+  return vertical || horizontal;
+};
+
+/**
+ * 定义 随机取出若干个元素的函数
+ */
+const pick = <T,>(items: T[], count: number, random: RandomFn): T[] => {
+  const copy = [...items];
+  shuffle(copy, random);
+  return copy.slice(0, Math.max(0, count));
+};
+
+/**
+ * 定义 尝试放置一次机关的函数（不保证有解）
+ * 门按顺序放在最短路线的直走廊上, 第 k 把钥匙放在不经过第 k 扇及之后的门就能到达的区域（尽量不在最短路线上）
+ * 单向格放在最短路线的直走廊上并指向终点方向, 传送门和金币随机放在剩下的路格上
+ */
+const tryPlaceEntities = (
+  maze: Cell[][],
+  start: Position,
+  end: Position,
+  config: EntityConfig,
+  random: RandomFn
+): MazeEntity[] => {
+  const entities: MazeEntity[] = [];
+  const occupied = new Set([entityKey(start), entityKey(end)]);
+  const isFree = (pos: Position) => !occupied.has(entityKey(pos));
+  const add = (entity: MazeEntity) => {
+    occupied.add(entityKey(entity.pos));
+    entities.push(entity);
+  };
+
+  const height = maze[0]?.length ?? 0;
+  const { reached, prev } = searchFrom(maze, start, []);
+  if (prev[end.x * height + end.y] === -1) return [];
+  const path = [end];
+  while (entityKey(path[path.length - 1]) !== entityKey(start)) {
+    const cell = prev[path[path.length - 1].x * height + path[path.length - 1].y];
+    path.push({ x: Math.floor(cell / height), y: cell % height });
+  }
+  path.reverse();
+  const pathKeys = new Set(path.map(entityKey));
+  const corridorSteps = path
+    .map((_, i) => i)
+    .filter((i) => i > 0 && i < path.length - 1 && isStraightCorridor(maze, path[i]));
+
+  // 门和钥匙
+  const colors = Object.values(KeyColor);
+  const doorSteps = pick(corridorSteps, Math.min(config.doors, colors.length), random).sort((a, b) => a - b);
+  const doors = doorSteps.map((i, k) => ({ type: EntityType.DOOR as const, pos: path[i], color: colors[k] }));
+  doors.forEach(add);
+  doors.forEach((door, k) => {
+    const blocked = doors.slice(k).map((d) => d.pos);
+    const region = searchFrom(maze, start, blocked).reached.filter(isFree);
+    const offPath = region.filter((pos) => !pathKeys.has(entityKey(pos)));
+    const candidates = offPath.length > 0 ? offPath : region;
+    if (candidates.length === 0) return;
+    add({ type: EntityType.KEY, pos: candidates[randomInt(random, candidates.length)], color: door.color });
+  });
+
+  // 单向格指向路线的下一格
+  pick(corridorSteps.filter((i) => isFree(path[i])), config.oneWays, random).forEach((i) => {
+    const [direction] = DIRECTIONS.filter((d) => {
+      const [dx, dy] = OFFSETS[d];
+      return path[i].x + dx === path[i + 1].x && path[i].y + dy === path[i + 1].y;
+    });
+    add({ type: EntityType.ONE_WAY, pos: path[i], direction });
+  });
+
+  // 传送门和金币放在剩下的路格上
+  const openCells = [...reached];
+  shuffle(openCells, random);
+  const takeFree = () => {
+    const pos = openCells.find(isFree);
+    if (pos) occupied.add(entityKey(pos));
+    return pos;
+  };
+  for (let i = 0; i < config.teleporters; i++) {
+    const a = takeFree();
+    const b = takeFree();
+    if (!a || !b) break;
+    entities.push({ type: EntityType.TELEPORTER, pos: a, target: b }, { type: EntityType.TELEPORTER, pos: b, target: a });
+  }
+  for (let i = 0; i < config.coins; i++) {
+    const pos = takeFree();
+    if (!pos) break;
+    entities.push({ type: EntityType.COIN, pos });
+  }
+  return entities;
+};
+
+/**
+ * 定义 按迷宫大小减少机关的函数：状态数超过上限时依次减少金币和门（钥匙）, 传送门和单向格不影响状态数
+ * 迷宫大到没有钥匙和金币也超过上限时返回 null, 不放机关
+ */
+const fitEntityConfig = (width: number, height: number, config: EntityConfig): EntityConfig | null => {
+  let { doors, coins } = config;
+  while (doors + coins > 0 && exceedsEntityStateLimit(width, height, doors + coins)) {
+    if (coins > 0) coins--;
+    else doors--;
+  }
+  return exceedsEntityStateLimit(width, height, doors + coins) ? null : { ...config, doors, coins };
+};
+
+/**
+ * 定义 在迷宫中放置机关的函数
+ * 先按迷宫大小减少机关, 每次放置后用 solveEntityMaze 检查是否有解, 无解时重新放置；多次都无解时不放机关
+ */
+export const placeEntities = (
+  maze: Cell[][],
+  start: Position,
+  end: Position,
+  entityConfig: EntityConfig,
+  random: RandomFn
+): MazeEntity[] => {
+  const config = fitEntityConfig(maze.length, maze[0]?.length ?? 0, entityConfig);
+  if (!config) return [];
+  for (let attempt = 0; attempt < ENTITY_PLACEMENT_ATTEMPTS; attempt++) {
+    const entities = tryPlaceEntities(maze, start, end, config, random);
+    if (solveEntityMaze(maze, entities, start, end).path.length > 0) return entities;
+  }
+  return [];
+};
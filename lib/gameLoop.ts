@@ -0,0 +1,46 @@
+import { GAME_MAX_FRAME_MS, GAME_TICK_MS } from '@/constants';
+
+/**
+ * 游戏循环中的一个系统（如按住移动、自动通关、敌人）, 每 interval 毫秒执行一步, interval 为 null 时暂停
+ * 一帧内积累了多步时 run 一次收到全部步数, elapsed 为这一帧经过的毫秒数
+ */
+export type LoopSystem = {
+  interval: number | null;
+  run: (steps: number, elapsed: number) => void;
+};
+
+/**
+ * 定义 推进一帧的函数：为每个系统累积经过的时间, 够一步时执行
+ * clocks 保存每个系统累积的时间；系统暂停时清零, 恢复后重新计时
+ */
+export const tickSystems = (
+  systems: Record<string, LoopSystem>,
+  clocks: Map<string, number>,
+  elapsed: number
+): void => {
+  for (const [name, { interval, run }] of Object.entries(systems)) {
+    if (interval === null) {
+      clocks.delete(name);
+      continue;
+    }
+    const clock = (clocks.get(name) ?? 0) + elapsed;
+    const steps = Math.floor(clock / interval);
+    clocks.set(name, clock - steps * interval);
+    if (steps > 0) run(steps, elapsed);
+  }
+};
+
+/**
+ * 定义 启动游戏循环的函数：每隔 GAME_TICK_MS 推进一帧, 返回停止循环的函数（可直接作为 useEffect 的清理函数）
+ * getSystems 每帧调用一次, 组件可以把每次渲染后的最新系统放在 ref 中
+ */
+export const startGameLoop = (getSystems: () => Record<string, LoopSystem>): (() => void) => {
+  const clocks = new Map<string, number>();
+  let lastTick = performance.now();
+  const interval = window.setInterval(() => {
+    const tick = performance.now();
+    tickSystems(getSystems(), clocks, Math.min(tick - lastTick, GAME_MAX_FRAME_MS));
+    lastTick = tick;
+  }, GAME_TICK_MS);
+  return () => window.clearInterval(interval);
+};
@@ -0,0 +1,417 @@
+import {
+  Cell,
+  MazeAlgorithm,
+  MazeGenerator,
+  RandomFn,
+  GenerationEvent,
+  GenerationEventType,
+} from '@/types';
+import { randomInt, shuffle } from '@/lib/random';
+
+/**
+ * 说明：所有生成算法都把奇数坐标 (2i+1, 2j+1) 当作"房间格", 偶数坐标当作房间之间的墙,
+ * 第 i 列房间对应 x = 2i + 1, 第 j 行房间对应 y = 2j + 1
+ */
+
+/**
+ * 定义 创建全是墙的网格的函数, 结构为 maze[x][y]
+ */
+const createGrid = (width: number, height: number, fill: Cell = 0): Cell[][] =>
+  Array(width)
+    .fill(null)
+    .map(() => Array(height).fill(fill));
+
+/**
+ * 定义 修改格子的函数, 传入 events 时同时记录打通（CARVE）或砌墙（WALL）事件
+ */
+const setCell = (
+  maze: Cell[][],
+  x: number,
+  y: number,
+  value: Cell,
+  events?: GenerationEvent[]
+): void => {
+  maze[x][y] = value;
+  events?.push({
+    type: value === 1 ? GenerationEventType.CARVE : GenerationEventType.WALL,
+    pos: { x, y },
+  });
+};
+
+/**
+ * 定义 记录生成器当前位置（如深度优先的栈顶）的函数
+ */
+const markHead = (x: number, y: number, events?: GenerationEvent[]): void => {
+  events?.push({ type: GenerationEventType.HEAD, pos: { x, y } });
+};
+
+/**
+ * 定义 计算某一维上房间格数量的函数
+ */
+const cellCount = (size: number): number => Math.max(0, Math.floor((size - 1) / 2));
+
+/**
+ * 定义 把房间下标转换为迷宫坐标的函数
+ */
+const toCoord = (index: number): number => index * 2 + 1;
+
+/**
+ * 定义 打通两个相邻房间（包括中间的墙）的函数
+ */
+const connect = (
+  maze: Cell[][],
+  c1: number,
+  r1: number,
+  c2: number,
+  r2: number,
+  events?: GenerationEvent[]
+): void => {
+  const x1 = toCoord(c1);
+  const y1 = toCoord(r1);
+  const x2 = toCoord(c2);
+  const y2 = toCoord(r2);
+  setCell(maze, x1, y1, 1, events);
+  setCell(maze, x2, y2, 1, events);
+  setCell(maze, (x1 + x2) / 2, (y1 + y2) / 2, 1, events);
+};
+
+/**
+ * 定义 获取某个房间上下左右相邻房间的函数
+ */
+const neighbors = (col: number, row: number, cols: number, rows: number): [number, number][] => {
+  const result: [number, number][] = [];
+  if (row > 0) result.push([col, row - 1]);
+  if (row < rows - 1) result.push([col, row + 1]);
+  if (col > 0) result.push([col - 1, row]);
+  if (col < cols - 1) result.push([col + 1, row]);
+  return result;
+};
+
+/**
+ * 深度优先回溯算法：挖通道
+ * 使用显式栈代替递归, 每一帧记录该格打乱后的方向和下一个要尝试的方向,
+ * 行为与递归版本一致, 但大迷宫不会爆栈
+ */
+const carvePassage = (
+  startX: number,
+  startY: number,
+  maze: Cell[][],
+  visited: boolean[][],
+  width: number,
+  height: number,
+  random: RandomFn,
+  events?: GenerationEvent[]
+): void => {
+  const stack: { x: number; y: number; dirs: number[][]; next: number }[] = [];
+
+  // 定义 访问一个格子并压栈的函数
+  const visit = (x: number, y: number) => {
+    // maze[x][y] 直接对应坐标 (x, y)
+    visited[x][y] = true;
+    setCell(maze, x, y, 1, events);
+    const dirs = [
+      [0, -2], // 上
+      [0, 2],  // 下
+      [-2, 0], // 左
+      [2, 0],  // 右
+    ];
+    // 随机打乱方向
+    shuffle(dirs, random);
+    stack.push({ x, y, dirs, next: 0 });
+    markHead(x, y, events);
+  };
+
+  visit(startX, startY);
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.dirs.length) {
+      // 四个方向都尝试过了, 回溯
+      stack.pop();
+      const top = stack[stack.length - 1];
+      if (top) markHead(top.x, top.y, events);
+      continue;
+    }
+    const [dx, dy] = frame.dirs[frame.next++];
+    const nx = frame.x + dx;
+    const ny = frame.y + dy;
+
+    if (
+      nx > 0 &&
+      nx < width - 1 &&
+      ny > 0 &&
+      ny < height - 1 &&
+      !visited[nx][ny]
+    ) {
+      // 打通中间的墙：从 (x, y) 到 (nx, ny)，中间墙在 (x + dx/2, y + dy/2)
+      setCell(maze, frame.x + dx / 2, frame.y + dy / 2, 1, events);
+      visit(nx, ny);
+    }
+  }
+};
+
+/**
+ * 递归回溯（深度优先）：长而曲折的走廊, 分叉较少
+ */
+const backtracking: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const visited: boolean[][] = Array(width)
+    .fill(null)
+    .map(() => Array(height).fill(false));
+  // 从 (1, 1) 开始生成，确保边界是墙
+  carvePassage(1, 1, maze, visited, width, height, random, events);
+  return maze;
+};
+
+/**
+ * 随机 Prim 算法：从一个房间向外扩张, 每次随机接入一个边界房间, 分叉多、走廊短
+ */
+const prim: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  if (cols === 0 || rows === 0) return maze;
+  const inMaze: boolean[][] = Array.from({ length: cols }, () => Array(rows).fill(false));
+  const inFrontier: boolean[][] = Array.from({ length: cols }, () => Array(rows).fill(false));
+  const frontier: [number, number][] = [];
+
+  // 定义 把房间加入迷宫并把它的邻居加入边界的函数
+  const addCell = (col: number, row: number) => {
+    inMaze[col][row] = true;
+    setCell(maze, toCoord(col), toCoord(row), 1, events);
+    markHead(toCoord(col), toCoord(row), events);
+    for (const [nc, nr] of neighbors(col, row, cols, rows)) {
+      if (!inMaze[nc][nr] && !inFrontier[nc][nr]) {
+        inFrontier[nc][nr] = true;
+        frontier.push([nc, nr]);
+      }
+    }
+  };
+
+  addCell(randomInt(random, cols), randomInt(random, rows));
+  while (frontier.length > 0) {
+    // 随机取出一个边界房间（与末尾交换后弹出, O(1)）
+    const index = randomInt(random, frontier.length);
+    [frontier[index], frontier[frontier.length - 1]] = [frontier[frontier.length - 1], frontier[index]];
+    const [col, row] = frontier.pop() as [number, number];
+    const linked = neighbors(col, row, cols, rows).filter(([nc, nr]) => inMaze[nc][nr]);
+    const [lc, lr] = linked[randomInt(random, linked.length)];
+    connect(maze, col, row, lc, lr, events);
+    addCell(col, row);
+  }
+  return maze;
+};
+
+/**
+ * 随机 Kruskal 算法：随机顺序打通墙, 用并查集保证不产生环
+ */
+const kruskal: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  const parent = Array.from({ length: cols * rows }, (_, i) => i);
+
+  // 定义 查找集合代表元的函数（路径压缩）
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  // 收集所有相邻房间之间的墙：[col, row, 是否向右]
+  const edges: [number, number, boolean][] = [];
+  for (let col = 0; col < cols; col++) {
+    for (let row = 0; row < rows; row++) {
+      setCell(maze, toCoord(col), toCoord(row), 1, events);
+      if (col < cols - 1) edges.push([col, row, true]);
+      if (row < rows - 1) edges.push([col, row, false]);
+    }
+  }
+  shuffle(edges, random);
+
+  for (const [col, row, horizontal] of edges) {
+    const nc = horizontal ? col + 1 : col;
+    const nr = horizontal ? row : row + 1;
+    const a = find(col * rows + row);
+    const b = find(nc * rows + nr);
+    if (a === b) continue;
+    parent[a] = b;
+    connect(maze, col, row, nc, nr, events);
+  }
+  return maze;
+};
+
+/**
+ * Wilson 算法：擦除环的随机游走, 生成均匀分布的生成树（所有迷宫出现概率相同）
+ */
+const wilson: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  if (cols === 0 || rows === 0) return maze;
+  const inMaze: boolean[][] = Array.from({ length: cols }, () => Array(rows).fill(false));
+  // 随机游走中每个房间最后一次离开的方向, 覆盖写入即实现了"擦除环"
+  const next: ([number, number] | null)[][] = Array.from({ length: cols }, () =>
+    Array(rows).fill(null)
+  );
+
+  const rootCol = randomInt(random, cols);
+  const rootRow = randomInt(random, rows);
+  inMaze[rootCol][rootRow] = true;
+  setCell(maze, toCoord(rootCol), toCoord(rootRow), 1, events);
+
+  for (let col = 0; col < cols; col++) {
+    for (let row = 0; row < rows; row++) {
+      if (inMaze[col][row]) continue;
+      // 从当前房间随机游走, 直到碰到已在迷宫中的房间
+      let c = col;
+      let r = row;
+      while (!inMaze[c][r]) {
+        const options = neighbors(c, r, cols, rows);
+        const step = options[randomInt(random, options.length)];
+        next[c][r] = step;
+        [c, r] = step;
+        markHead(toCoord(c), toCoord(r), events);
+      }
+      // 沿着记录的方向把这条路径并入迷宫
+      c = col;
+      r = row;
+      while (!inMaze[c][r]) {
+        const [nc, nr] = next[c][r] as [number, number];
+        inMaze[c][r] = true;
+        connect(maze, c, r, nc, nr, events);
+        c = nc;
+        r = nr;
+      }
+    }
+  }
+  return maze;
+};
+
+/**
+ * Eller 算法：逐行生成, 只需记住当前行每个房间所属的集合
+ */
+const eller: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  let sets = Array.from({ length: cols }, (_, i) => i);
+  let nextSetId = cols;
+
+  for (let row = 0; row < rows; row++) {
+    const y = toCoord(row);
+    const lastRow = row === rows - 1;
+    for (let col = 0; col < cols; col++) {
+      setCell(maze, toCoord(col), y, 1, events);
+    }
+
+    // 横向：随机合并相邻的不同集合, 最后一行必须全部合并
+    for (let col = 0; col < cols - 1; col++) {
+      if (sets[col] === sets[col + 1] || !(lastRow || random() < 0.5)) continue;
+      const from = sets[col + 1];
+      const to = sets[col];
+      setCell(maze, toCoord(col) + 1, y, 1, events);
+      sets = sets.map((set) => (set === from ? to : set));
+    }
+    if (lastRow) break;
+
+    // 纵向：每个集合至少向下打通一个房间, 没被打通的房间在下一行获得新集合
+    const groups = new Map<number, number[]>();
+    sets.forEach((set, col) => {
+      groups.set(set, [...(groups.get(set) ?? []), col]);
+    });
+    const nextSets: number[] = Array(cols).fill(-1);
+    groups.forEach((members, set) => {
+      shuffle(members, random);
+      const count = randomInt(random, members.length) + 1;
+      for (const col of members.slice(0, count)) {
+        setCell(maze, toCoord(col), y + 1, 1, events);
+        nextSets[col] = set;
+      }
+    });
+    sets = nextSets.map((set) => (set === -1 ? nextSetId++ : set));
+  }
+  return maze;
+};
+
+/**
+ * 二叉树算法：每个房间随机向上或向左打通, 顶行和左列是两条贯通的长走廊
+ */
+const binaryTree: MazeGenerator = (width, height, random, events) => {
+  const maze = createGrid(width, height);
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  for (let col = 0; col < cols; col++) {
+    for (let row = 0; row < rows; row++) {
+      setCell(maze, toCoord(col), toCoord(row), 1, events);
+      markHead(toCoord(col), toCoord(row), events);
+      const options: [number, number][] = [];
+      if (row > 0) options.push([col, row - 1]);
+      if (col > 0) options.push([col - 1, row]);
+      if (options.length === 0) continue;
+      const [nc, nr] = options[randomInt(random, options.length)];
+      connect(maze, col, row, nc, nr, events);
+    }
+  }
+  return maze;
+};
+
+/**
+ * 递归分割算法：从空旷的区域开始, 不断用带一个缺口的墙把区域一分为二
+ */
+const recursiveDivision: MazeGenerator = (width, height, random, events) => {
+  const cols = cellCount(width);
+  const rows = cellCount(height);
+  const maze = createGrid(width, height);
+  // 内部区域先全部打通
+  for (let x = 1; x <= toCoord(cols - 1); x++) {
+    for (let y = 1; y <= toCoord(rows - 1); y++) {
+      setCell(maze, x, y, 1, events);
+    }
+  }
+
+  // 待分割的区域（以房间下标表示的闭区间）, 用显式栈代替递归
+  const chambers: [number, number, number, number][] = [];
+  if (cols > 0 && rows > 0) chambers.push([0, cols - 1, 0, rows - 1]);
+  while (chambers.length > 0) {
+    const [c0, c1, r0, r1] = chambers.pop() as [number, number, number, number];
+    const chamberWidth = c1 - c0 + 1;
+    const chamberHeight = r1 - r0 + 1;
+    if (chamberWidth < 2 && chamberHeight < 2) continue;
+
+    // 区域更宽时竖着切, 更高时横着切, 一样时随机
+    const vertical =
+      chamberWidth > chamberHeight ||
+      (chamberWidth === chamberHeight && random() < 0.5);
+    if (vertical) {
+      if (chamberWidth < 2) continue;
+      const split = c0 + randomInt(random, chamberWidth - 1);
+      const wallX = toCoord(split) + 1;
+      for (let y = toCoord(r0); y <= toCoord(r1); y++) setCell(maze, wallX, y, 0, events);
+      setCell(maze, wallX, toCoord(r0 + randomInt(random, chamberHeight)), 1, events);
+      chambers.push([c0, split, r0, r1], [split + 1, c1, r0, r1]);
+    } else {
+      if (chamberHeight < 2) continue;
+      const split = r0 + randomInt(random, chamberHeight - 1);
+      const wallY = toCoord(split) + 1;
+      for (let x = toCoord(c0); x <= toCoord(c1); x++) setCell(maze, x, wallY, 0, events);
+      setCell(maze, toCoord(c0 + randomInt(random, chamberWidth)), wallY, 1, events);
+      chambers.push([c0, c1, r0, split], [c0, c1, split + 1, r1]);
+    }
+  }
+  return maze;
+};
+
+/**
+ * 生成算法注册表：所有算法都输出相同结构的 Cell[][]
+ */
+export const MAZE_GENERATORS: Record<MazeAlgorithm, MazeGenerator> = {
+  [MazeAlgorithm.BACKTRACKING]: backtracking,
+  [MazeAlgorithm.PRIM]: prim,
+  [MazeAlgorithm.KRUSKAL]: kruskal,
+  [MazeAlgorithm.WILSON]: wilson,
+  [MazeAlgorithm.ELLER]: eller,
+  [MazeAlgorithm.BINARY_TREE]: binaryTree,
+  [MazeAlgorithm.RECURSIVE_DIVISION]: recursiveDivision,
+};
@@ -0,0 +1,50 @@
+import { Cell, Direction, Hint, HintType, MazeEntity, Position } from '@/types';
+import { findShortestPath, getNextPosition } from '@/lib/mazeUtils';
+import { collectAt, createEntityIndex, getEntityDirection, solveEntityMaze } from '@/lib/entities';
+
+/**
+ * 定义 计算某格有几个相邻的路的函数
+ */
+const countExits = (maze: Cell[][], pos: Position): number =>
+  [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT].filter((direction) => {
+    const next = getNextPosition(pos, direction);
+    return maze[next.x]?.[next.y] === 1;
+  }).length;
+
+/**
+ * 定义 生成提示的函数, 无法到达终点时返回 null
+ * 有机关时按当前已收集的物品用 solveEntityMaze 求路线（会绕路拿钥匙和金币）, 否则用普通最短路线
+ * PATH: 最短路线上接下来的 length 格
+ * DIRECTION: 沿最短路线找到第一个岔路口（包括当前位置）, 给出在那里该走的方向；途中没有岔路口时给出当前该走的方向
+ */
+export const getHint = (
+  maze: Cell[][],
+  from: Position,
+  end: Position,
+  type: HintType,
+  length: number,
+  entities: MazeEntity[] = [],
+  collected: Set<string> = new Set()
+): Hint | null => {
+  const path =
+    entities.length > 0
+      ? solveEntityMaze(maze, entities, from, end, collected).path
+      : findShortestPath(maze, from, end);
+  if (path.length < 2) return null;
+  if (type === HintType.PATH) {
+    return { type, cells: path.slice(1, length + 1) };
+  }
+  let index = path.findIndex((pos, i) => i < path.length - 1 && countExits(maze, pos) >= 3);
+  if (index === -1) index = 0;
+  const junction = path[index];
+  const next = path[index + 1];
+  // 按走到岔路口时已收集的物品查找方向, 下一格是传送目的地时也能给出走上传送门的方向
+  const entityIndex = createEntityIndex(entities);
+  const collectedAtJunction = path.slice(0, index + 1).reduce((acc, pos) => collectAt(entityIndex, pos, acc), collected);
+  return {
+    type,
+    cells: [junction, next],
+    junction,
+    direction: getEntityDirection(maze, entityIndex, junction, next, collectedAtJunction) ?? undefined,
+  };
+};
@@ -0,0 +1,50 @@
+import { Direction } from '@/types';
+
+/**
+ * 标准手柄布局中十字键的按钮编号
+ */
+const GAMEPAD_DPAD_BUTTONS: [number, Direction][] = [
+  [12, Direction.UP],
+  [13, Direction.DOWN],
+  [14, Direction.LEFT],
+  [15, Direction.RIGHT],
+];
+
+/**
+ * 定义 根据滑动位移计算方向的函数, 取位移较大的轴；距离不足时返回 null
+ */
+export const getSwipeDirection = (dx: number, dy: number, minDistance: number): Direction | null => {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < minDistance) return null;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? Direction.RIGHT : Direction.LEFT;
+  }
+  return dy > 0 ? Direction.DOWN : Direction.UP;
+};
+
+/**
+ * 定义 读取手柄当前方向的函数：十字键优先, 其次是左摇杆（偏移小于死区时忽略）
+ */
+export const getGamepadDirection = (gamepad: Gamepad, deadzone: number): Direction | null => {
+  for (const [button, direction] of GAMEPAD_DPAD_BUTTONS) {
+    if (gamepad.buttons[button]?.pressed) return direction;
+  }
+  const x = gamepad.axes[0] ?? 0;
+  const y = gamepad.axes[1] ?? 0;
+  if (Math.max(Math.abs(x), Math.abs(y)) < deadzone) return null;
+  // 复用滑动的判断：取偏移较大的轴
+  return getSwipeDirection(x, y, 0);
+};
+
+/**
+ * 定义 把按键名转换为显示文本的函数
+ */
+export const formatKey = (key: string): string => {
+  const names: Record<string, string> = {
+    arrowup: '↑',
+    arrowdown: '↓',
+    arrowleft: '←',
+    arrowright: '→',
+    ' ': 'Space',
+  };
+  return names[key] ?? key.toUpperCase();
+};
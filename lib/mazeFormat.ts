@@ -0,0 +1,567 @@
+import {
+  Cell,
+  Position,
+  MazeData,
+  MazeFormat,
+  MazeAlgorithm,
+  Difficulty,
+  Direction,
+  EntityType,
+  KeyColor,
+  MazeEntity,
+} from '@/types';
+import { CUSTOM_SIZE_MAX, PRESET_NAME_MAX } from '@/constants';
+import { findShortestPath } from '@/lib/mazeUtils';
+import { createEntityIndex, entityKey, exceedsEntityStateLimit, solveEntityMaze } from '@/lib/entities';
+
+/**
+ * 迷宫格式错误：导入的内容格式不正确或迷宫无解时抛出
+ */
+export class MazeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MazeFormatError';
+  }
+}
+
+/**
+ * ASCII 格式使用的字符
+ */
+const ASCII_WALL = '#';
+const ASCII_PATH = '.';
+const ASCII_START = 'S';
+const ASCII_END = 'E';
+
+/**
+ * JSON 格式与链接码格式的版本号, 格式变化时递增
+ * 版本 2 加入了外墙出入口、机关和自定义难度名称；版本 1 没有这些, 仍然可以导入
+ */
+const FORMAT_VERSION = 2;
+const LEGACY_FORMAT_VERSION = 1;
+
+/**
+ * 链接码头部长度（字节）：版本 1 + 宽高 2x2 + 起点终点 4x2
+ */
+const CODE_HEADER_BYTES = 13;
+
+/**
+ * 链接码中机关类型、钥匙颜色和方向的编号（按枚举顺序）
+ */
+const ENTITY_TYPES = Object.values(EntityType);
+const KEY_COLORS = Object.values(KeyColor);
+const DIRECTIONS = Object.values(Direction);
+
+/**
+ * 定义 判断是否是合法坐标对象的函数
+ */
+const isPosition = (value: unknown): value is Position =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isInteger((value as Position).x) &&
+  Number.isInteger((value as Position).y);
+
+/**
+ * 定义 判断是否是合法自定义难度名称的函数
+ */
+const isPresetName = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= PRESET_NAME_MAX;
+
+/**
+ * 定义 校验出入口和机关的函数
+ * 出入口必须在外墙上；机关必须在内部路格上, 互不重叠且不在起点终点上；传送门必须成对互相指向
+ * 钥匙和金币越多求解的状态越多, 不能超过这个尺寸迷宫的求解上限
+ */
+const validateExtras = ({ maze, start, end, openings = [], entities = [] }: MazeData) => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  openings.forEach(({ x, y }) => {
+    const onBorder = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    if (!onBorder || x < 0 || y < 0 || x >= width || y >= height) {
+      throw new MazeFormatError(`出入口 (${x}, ${y}) 不在外墙上`);
+    }
+  });
+  const index = createEntityIndex(entities);
+  if (index.size !== entities.length) {
+    throw new MazeFormatError('同一格只能有一个机关');
+  }
+  entities.forEach((entity) => {
+    const { x, y } = entity.pos;
+    const key = entityKey(entity.pos);
+    if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1 || maze[x][y] !== 1) {
+      throw new MazeFormatError(`机关 (${x}, ${y}) 不在路上`);
+    }
+    if (key === entityKey(start) || key === entityKey(end)) {
+      throw new MazeFormatError(`机关 (${x}, ${y}) 不能放在起点或终点上`);
+    }
+    if (entity.type === EntityType.TELEPORTER) {
+      const target = index.get(entityKey(entity.target));
+      if (target?.type !== EntityType.TELEPORTER || entityKey(target.target) !== key) {
+        throw new MazeFormatError(`传送门 (${x}, ${y}) 没有配对的传送门`);
+      }
+    }
+  });
+  const itemCount = entities.filter((entity) => entity.type === EntityType.KEY || entity.type === EntityType.COIN).length;
+  if (exceedsEntityStateLimit(width, height, itemCount)) {
+    throw new MazeFormatError(`钥匙和金币太多：${width}x${height} 的迷宫无法求解 ${itemCount} 个`);
+  }
+};
+
+/**
+ * 定义 校验迷宫数据的函数
+ * 检查尺寸、边界是否都是墙、起点终点是否在路上、出入口和机关是否合法, 以及是否能从起点走到终点（有机关时按机关规则）
+ */
+export const validateMazeData = (data: MazeData): MazeData => {
+  const { maze, start, end } = data;
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  if (width < 3 || height < 3) {
+    throw new MazeFormatError('迷宫尺寸至少为 3x3');
+  }
+  if (width > CUSTOM_SIZE_MAX || height > CUSTOM_SIZE_MAX) {
+    throw new MazeFormatError(`迷宫尺寸不能超过 ${CUSTOM_SIZE_MAX}x${CUSTOM_SIZE_MAX}`);
+  }
+  for (let x = 0; x < width; x++) {
+    if (maze[x]?.length !== height) {
+      throw new MazeFormatError('迷宫每一行的长度必须相同');
+    }
+    for (let y = 0; y < height; y++) {
+      const onBorder = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+      if (onBorder && maze[x][y] !== 0) {
+        throw new MazeFormatError(`边界必须是墙：(${x}, ${y})`);
+      }
+    }
+  }
+  const isOpen = (pos: Position) => maze[pos.x]?.[pos.y] === 1;
+  if (!isOpen(start)) {
+    throw new MazeFormatError(`起点 (${start.x}, ${start.y}) 不在路上`);
+  }
+  if (!isOpen(end)) {
+    throw new MazeFormatError(`终点 (${end.x}, ${end.y}) 不在路上`);
+  }
+  validateExtras(data);
+  const entities = data.entities ?? [];
+  const path =
+    entities.length > 0 ? solveEntityMaze(maze, entities, start, end).path : findShortestPath(maze, start, end);
+  if (path.length === 0) {
+    throw new MazeFormatError('迷宫无解：起点无法到达终点');
+  }
+  return data;
+};
+
+/**
+ * 定义 把迷宫转换为 ASCII 文本的函数
+ * 每行一个 y, # 为墙, . 为路, S 为起点, E 为终点；不包含出入口和机关
+ */
+export const mazeToAscii = ({ maze, start, end }: MazeData): string => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const lines: string[] = [];
+  for (let y = 0; y < height; y++) {
+    let line = '';
+    for (let x = 0; x < width; x++) {
+      if (x === start.x && y === start.y) line += ASCII_START;
+      else if (x === end.x && y === end.y) line += ASCII_END;
+      else line += maze[x][y] === 1 ? ASCII_PATH : ASCII_WALL;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * 定义 解析 ASCII 文本为迷宫数据的函数（不做校验）
+ */
+const parseAsciiRows = (rows: string[]): MazeData => {
+  const height = rows.length;
+  const width = rows[0]?.length ?? 0;
+  const maze: Cell[][] = Array(width)
+    .fill(null)
+    .map(() => Array(height).fill(0));
+  let start: Position | null = null;
+  let end: Position | null = null;
+
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      throw new MazeFormatError(`第 ${y + 1} 行长度为 ${row.length}，应为 ${width}`);
+    }
+    for (let x = 0; x < width; x++) {
+      const char = row[x];
+      switch (char) {
+        case ASCII_WALL:
+          break;
+        case ASCII_PATH:
+          maze[x][y] = 1;
+          break;
+        case ASCII_START:
+          if (start) throw new MazeFormatError('只能有一个起点 S');
+          start = { x, y };
+          maze[x][y] = 1;
+          break;
+        case ASCII_END:
+          if (end) throw new MazeFormatError('只能有一个终点 E');
+          end = { x, y };
+          maze[x][y] = 1;
+          break;
+        default:
+          throw new MazeFormatError(`第 ${y + 1} 行第 ${x + 1} 列有无法识别的字符 "${char}"`);
+      }
+    }
+  });
+
+  if (!start) throw new MazeFormatError('缺少起点 S');
+  if (!end) throw new MazeFormatError('缺少终点 E');
+  return { maze, start, end };
+};
+
+/**
+ * 定义 解析 ASCII 文本为迷宫数据的函数
+ */
+export const parseAsciiMaze = (text: string): MazeData => {
+  const rows = text
+    .split('\n')
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line.trim() !== '');
+  if (rows.length === 0) {
+    throw new MazeFormatError('内容为空');
+  }
+  return validateMazeData(parseAsciiRows(rows));
+};
+
+/**
+ * 定义 把迷宫转换为 JSON 文本的函数, 附带尺寸、种子、起终点、算法和难度等元信息, 以及出入口和机关
+ */
+export const mazeToJson = (data: MazeData): string =>
+  JSON.stringify(
+    {
+      version: FORMAT_VERSION,
+      width: data.maze.length,
+      height: data.maze[0]?.length ?? 0,
+      seed: data.seed,
+      algorithm: data.algorithm,
+      difficulty: data.difficulty,
+      preset: data.preset,
+      start: data.start,
+      end: data.end,
+      rows: mazeToAscii(data).split('\n'),
+      openings: data.openings ?? [],
+      entities: data.entities ?? [],
+    },
+    null,
+    2
+  );
+
+/**
+ * 定义 解析 JSON 中一个机关的函数（只检查结构, 位置在 validateMazeData 中校验）
+ */
+const parseEntity = (value: unknown, i: number): MazeEntity => {
+  const error = new MazeFormatError(`第 ${i + 1} 个机关格式不正确`);
+  if (typeof value !== 'object' || value === null) throw error;
+  const raw = value as Record<string, unknown>;
+  if (!isPosition(raw.pos)) throw error;
+  const pos = { x: raw.pos.x, y: raw.pos.y };
+  switch (raw.type) {
+    case EntityType.KEY:
+    case EntityType.DOOR:
+      if (!KEY_COLORS.includes(raw.color as KeyColor)) throw error;
+      return { type: raw.type, pos, color: raw.color as KeyColor };
+    case EntityType.COIN:
+      return { type: raw.type, pos };
+    case EntityType.TELEPORTER:
+      if (!isPosition(raw.target)) throw error;
+      return { type: raw.type, pos, target: { x: raw.target.x, y: raw.target.y } };
+    case EntityType.ONE_WAY:
+      if (!DIRECTIONS.includes(raw.direction as Direction)) throw error;
+      return { type: raw.type, pos, direction: raw.direction as Direction };
+    default:
+      throw error;
+  }
+};
+
+/**
+ * 定义 解析 JSON 文本为迷宫数据的函数
+ */
+export const parseMazeJson = (text: string): MazeData => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new MazeFormatError('JSON 格式不正确');
+  }
+  if (typeof raw !== 'object' || raw === null) {
+    throw new MazeFormatError('JSON 内容必须是对象');
+  }
+  if (raw.version !== FORMAT_VERSION && raw.version !== LEGACY_FORMAT_VERSION) {
+    throw new MazeFormatError(`不支持的版本：${String(raw.version)}`);
+  }
+  if (!Array.isArray(raw.rows) || !raw.rows.every((row) => typeof row === 'string')) {
+    throw new MazeFormatError('rows 必须是字符串数组');
+  }
+  const parsed = parseAsciiRows(raw.rows as string[]);
+  if (raw.width !== parsed.maze.length || raw.height !== (parsed.maze[0]?.length ?? 0)) {
+    throw new MazeFormatError('width/height 与 rows 的尺寸不一致');
+  }
+  if (!isPosition(raw.start) || !isPosition(raw.end)) {
+    throw new MazeFormatError('start/end 必须是 { x, y } 坐标');
+  }
+  if (raw.start.x !== parsed.start.x || raw.start.y !== parsed.start.y) {
+    throw new MazeFormatError('start 与 rows 中的 S 位置不一致');
+  }
+  if (raw.end.x !== parsed.end.x || raw.end.y !== parsed.end.y) {
+    throw new MazeFormatError('end 与 rows 中的 E 位置不一致');
+  }
+  if (raw.seed !== undefined && !Number.isInteger(raw.seed)) {
+    throw new MazeFormatError('seed 必须是整数');
+  }
+  if (
+    raw.algorithm !== undefined &&
+    !Object.values(MazeAlgorithm).includes(raw.algorithm as MazeAlgorithm)
+  ) {
+    throw new MazeFormatError(`未知的生成算法：${String(raw.algorithm)}`);
+  }
+  if (
+    raw.difficulty !== undefined &&
+    !Object.values(Difficulty).includes(raw.difficulty as Difficulty)
+  ) {
+    throw new MazeFormatError(`未知的难度：${String(raw.difficulty)}`);
+  }
+  if (raw.preset !== undefined && !isPresetName(raw.preset)) {
+    throw new MazeFormatError(`preset 必须是不超过 ${PRESET_NAME_MAX} 个字的名称`);
+  }
+  const openings = raw.openings ?? [];
+  if (!Array.isArray(openings) || !openings.every(isPosition)) {
+    throw new MazeFormatError('openings 必须是 { x, y } 坐标数组');
+  }
+  const entities = raw.entities ?? [];
+  if (!Array.isArray(entities)) {
+    throw new MazeFormatError('entities 必须是数组');
+  }
+  return validateMazeData({
+    ...parsed,
+    seed: raw.seed as number | undefined,
+    algorithm: raw.algorithm as MazeAlgorithm | undefined,
+    difficulty: raw.difficulty as Difficulty | undefined,
+    preset: raw.preset,
+    openings: openings.map(({ x, y }) => ({ x, y })),
+    entities: entities.map(parseEntity),
+  });
+};
+
+/**
+ * 定义 字节数组与 base64url 互相转换的函数（URL 安全：+/ 替换为 -_, 去掉补位 =）
+ */
+const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlToBytes = (code: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) {
+    throw new MazeFormatError('链接码包含非法字符');
+  }
+  // base64 每 4 个字符表示 3 个字节, 余 1 个字符不能组成任何字节
+  if (code.length % 4 === 1) {
+    throw new MazeFormatError('链接码长度不正确');
+  }
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  let binary: string;
+  try {
+    binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new MazeFormatError('链接码包含非法字符');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * 定义 把迷宫编码为紧凑的 URL 安全链接码的函数
+ * 结构：版本、宽、高、起点、终点（各 16 位）, 之后按 y 行优先每格 1 位
+ * 再之后是出入口（数量, 每个 x、y）和机关（数量, 每个类型、x、y 以及颜色 / 传送目标 / 方向）, 数值都是 16 位, 编号为 8 位
+ * 最后是自定义难度名称（8 位字节数, 之后是 UTF-8 字节, 没有时为 0）
+ */
+export const encodeMazeCode = ({ maze, start, end, openings = [], entities = [], preset }: MazeData): string => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const extra: number[] = [];
+  const push16 = (value: number) => extra.push(value >> 8, value & 0xff);
+  push16(openings.length);
+  openings.forEach(({ x, y }) => {
+    push16(x);
+    push16(y);
+  });
+  push16(entities.length);
+  entities.forEach((entity) => {
+    extra.push(ENTITY_TYPES.indexOf(entity.type));
+    push16(entity.pos.x);
+    push16(entity.pos.y);
+    switch (entity.type) {
+      case EntityType.KEY:
+      case EntityType.DOOR:
+        extra.push(KEY_COLORS.indexOf(entity.color));
+        break;
+      case EntityType.TELEPORTER:
+        push16(entity.target.x);
+        push16(entity.target.y);
+        break;
+      case EntityType.ONE_WAY:
+        extra.push(DIRECTIONS.indexOf(entity.direction));
+        break;
+    }
+  });
+  const presetBytes = new TextEncoder().encode(preset ?? '');
+  extra.push(presetBytes.length, ...presetBytes);
+
+  const gridEnd = CODE_HEADER_BYTES + Math.ceil((width * height) / 8);
+  const bytes = new Uint8Array(gridEnd + extra.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, FORMAT_VERSION);
+  [width, height, start.x, start.y, end.x, end.y].forEach((value, i) => {
+    view.setUint16(1 + i * 2, value);
+  });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (maze[x][y] === 1) {
+        const bit = y * width + x;
+        bytes[CODE_HEADER_BYTES + (bit >> 3)] |= 1 << (bit & 7);
+      }
+    }
+  }
+  bytes.set(extra, gridEnd);
+  return bytesToBase64Url(bytes);
+};
+
+/**
+ * 定义 解析链接码中出入口、机关和自定义难度名称的函数, offset 为迷宫格子之后的位置
+ */
+const decodeExtras = (
+  bytes: Uint8Array,
+  offset: number
+): Pick<MazeData, 'openings' | 'entities' | 'preset'> => {
+  const read8 = () => {
+    if (offset >= bytes.length) throw new MazeFormatError('链接码不完整');
+    return bytes[offset++];
+  };
+  const read16 = () => (read8() << 8) | read8();
+  const readPosition = (): Position => {
+    const x = read16();
+    return { x, y: read16() };
+  };
+  const readColor = (i: number) => {
+    const color = KEY_COLORS[read8()];
+    if (!color) throw new MazeFormatError(`第 ${i + 1} 个机关的颜色未知`);
+    return color;
+  };
+  const openings = Array.from({ length: read16() }, readPosition);
+  const entities = Array.from({ length: read16() }, (_, i): MazeEntity => {
+    const type = ENTITY_TYPES[read8()];
+    const pos = readPosition();
+    switch (type) {
+      case EntityType.KEY:
+        return { type, pos, color: readColor(i) };
+      case EntityType.DOOR:
+        return { type, pos, color: readColor(i) };
+      case EntityType.COIN:
+        return { type, pos };
+      case EntityType.TELEPORTER:
+        return { type, pos, target: readPosition() };
+      case EntityType.ONE_WAY: {
+        const direction = DIRECTIONS[read8()];
+        if (!direction) throw new MazeFormatError(`第 ${i + 1} 个机关的方向未知`);
+        return { type, pos, direction };
+      }
+      default:
+        throw new MazeFormatError(`第 ${i + 1} 个机关的类型未知`);
+    }
+  });
+  const presetBytes = Array.from({ length: read8() }, read8);
+  if (offset !== bytes.length) {
+    throw new MazeFormatError('链接码长度与迷宫尺寸不一致');
+  }
+  if (presetBytes.length === 0) return { openings, entities };
+  let preset: string;
+  try {
+    preset = new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(presetBytes));
+  } catch {
+    throw new MazeFormatError('链接码中的自定义难度名称不正确');
+  }
+  if (!isPresetName(preset)) {
+    throw new MazeFormatError('链接码中的自定义难度名称不正确');
+  }
+  return { openings, entities, preset };
+};
+
+/**
+ * 定义 解析链接码为迷宫数据的函数, 兼容没有出入口和机关的版本 1
+ */
+export const decodeMazeCode = (code: string): MazeData => {
+  const bytes = base64UrlToBytes(code.trim());
+  if (bytes.length < CODE_HEADER_BYTES) {
+    throw new MazeFormatError('链接码长度不足');
+  }
+  const view = new DataView(bytes.buffer);
+  const version = view.getUint8(0);
+  if (version !== FORMAT_VERSION && version !== LEGACY_FORMAT_VERSION) {
+    throw new MazeFormatError(`不支持的版本：${version}`);
+  }
+  const [width, height, sx, sy, ex, ey] = Array.from({ length: 6 }, (_, i) =>
+    view.getUint16(1 + i * 2)
+  );
+  const gridEnd = CODE_HEADER_BYTES + Math.ceil((width * height) / 8);
+  if (bytes.length < gridEnd || (version === LEGACY_FORMAT_VERSION && bytes.length !== gridEnd)) {
+    throw new MazeFormatError('链接码长度与迷宫尺寸不一致');
+  }
+  const maze: Cell[][] = Array(width)
+    .fill(null)
+    .map(() => Array(height).fill(0));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = y * width + x;
+      if (bytes[CODE_HEADER_BYTES + (bit >> 3)] & (1 << (bit & 7))) {
+        maze[x][y] = 1;
+      }
+    }
+  }
+  return validateMazeData({
+    maze,
+    start: { x: sx, y: sy },
+    end: { x: ex, y: ey },
+    ...(version === FORMAT_VERSION ? decodeExtras(bytes, gridEnd) : {}),
+  });
+};
+
+/**
+ * 定义 按指定格式导出迷宫的函数
+ */
+export const exportMaze = (data: MazeData, format: MazeFormat): string => {
+  switch (format) {
+    case MazeFormat.ASCII:
+      return mazeToAscii(data);
+    case MazeFormat.JSON:
+      return mazeToJson(data);
+    case MazeFormat.CODE:
+      return encodeMazeCode(data);
+  }
+};
+
+/**
+ * 定义 导入迷宫的函数, 自动识别格式：{ 开头为 JSON, 含 # 为 ASCII, 否则为链接码
+ */
+export const importMaze = (text: string): MazeData => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new MazeFormatError('内容为空');
+  }
+  if (trimmed.startsWith('{')) {
+    return parseMazeJson(trimmed);
+  }
+  if (trimmed.includes(ASCII_WALL)) {
+    return parseAsciiMaze(trimmed);
+  }
+  return decodeMazeCode(trimmed);
+};
@@ -1,57 +1,24 @@
-import { Cell, Position, Direction } from '@/types';
-
-/**
- * Fisher-Yates 洗牌算法
- */
-export const shuffle = <T,>(array: T[]): void => {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
-  }
-};
-
-/**
- * 深度优先递归回溯算法：挖通道
- */
-const carvePassage = (
-  x: number,
-  y: number,
-  maze: Cell[][],
-  visited: boolean[][],
-  width: number,
-  height: number
-): void => {
-  // maze[x][y] 直接对应坐标 (x, y)
-  visited[x][y] = true;
-  maze[x][y] = 1;
-
-  const directions = [
-    [0, -2], // 上
-    [0, 2],  // 下
-    [-2, 0], // 左
-    [2, 0],  // 右
-  ];
-
-  // 随机打乱方向
-  shuffle(directions);
-
-  for (const [dx, dy] of directions) {
-    const nx = x + dx;
-    const ny = y + dy;
-
-    if (
-      nx > 0 &&
-      nx < width - 1 &&
-      ny > 0 &&
-      ny < height - 1 &&
-      !visited[nx][ny]
-    ) {
-      // 打通中间的墙：从 (x, y) 到 (nx, ny)，中间墙在 (x + dx/2, y + dy/2)
-      maze[x + dx / 2][y + dy / 2] = 1;
-      carvePassage(nx, ny, maze, visited, width, height);
-    }
-  }
-};
+import {
+  Cell,
+  Position,
+  Direction,
+  RandomFn,
+  MazeAlgorithm,
+  MazeGenerationOptions,
+  SearchEvent,
+  SearchEventType,
+  GenerationEvent,
+  GenerationEventType,
+  KeyBindings,
+  MazeData,
+  EndpointMode,
+  MultiLevelMaze,
+} from '@/types';
+import { randomInt, shuffle } from '@/lib/random';
+import { MAZE_GENERATORS } from '@/lib/generators';
+import { placeEndpoints } from '@/lib/endpoints';
+import { placeEntities } from '@/lib/entities';
+import { DEFAULT_KEY_BINDINGS, STAIR_CHANCE } from '@/constants';
 
 /**
  * 为迷宫增加分支，制造更多死路
@@ -59,7 +26,9 @@ const carvePassage = (
 const addBranches = (
   maze: Cell[][],
   branches: number,
-  branchMaxLength: number
+  branchMaxLength: number,
+  random: RandomFn,
+  events?: GenerationEvent[]
 ): Cell[][] => {
   // maze[x][y] 结构：外层是 x（列），内层是 y（行）
   const width = maze.length;
@@ -75,22 +44,22 @@ const addBranches = (
     x >= 0 && x < width && y >= 0 && y < height && maze[x]?.[y] === 0;
   const isPath = (x: number, y: number) =>
     x >= 0 && x < width && y >= 0 && y < height && maze[x]?.[y] === 1;
-// 找到所有打通的路格
-  for (let i = 0; i < branches; i++) {
-    const pathCells: Position[] = [];
-    for (let x = 1; x < width - 1; x++) {
-      for (let y = 1; y < height - 1; y++) {
-        if (maze[x][y] === 1) {
-          pathCells.push({ x, y });
-        }
+// 找到所有打通的路格, 只扫描一次, 之后挖出的新路格增量加入
+  const pathCells: Position[] = [];
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 1; y < height - 1; y++) {
+      if (maze[x][y] === 1) {
+        pathCells.push({ x, y });
       }
     }
+  }
+  for (let i = 0; i < branches; i++) {
     if (pathCells.length === 0) break;
     // 从已经打通的路格中选一个作为起点供后续打通别的分支
-    const start = pathCells[Math.floor(Math.random() * pathCells.length)];
+    const start = pathCells[randomInt(random, pathCells.length)];
 // 打乱方向, 选一个开挖
     const shuffledDirs = [...dirs];
-    shuffle(shuffledDirs);
+    shuffle(shuffledDirs, random);
     let chosenDir: Position | null = null;
     for (const d of shuffledDirs) {
       if (isWall(start.x + d.x, start.y + d.y)) {
@@ -100,7 +69,7 @@ const addBranches = (
     }
     if (!chosenDir) continue;
 // 确定最终长度以及起点, 准备正式开挖
-    const length = Math.floor(Math.random() * branchMaxLength) + 1;
+    const length = randomInt(random, branchMaxLength) + 1;
     let cx = start.x;
     let cy = start.y;
     // 开挖
@@ -116,6 +85,8 @@ const addBranches = (
       if (neighborPathsDirs.length > 0) break;
 
       maze[nx][ny] = 1;
+      events?.push({ type: GenerationEventType.BRANCH, pos: { x: nx, y: ny } });
+      pathCells.push({ x: nx, y: ny });
       cx = nx;
       cy = ny;
     }
@@ -124,66 +95,182 @@ const addBranches = (
   return maze;
 };
 
+/**
+ * 编织迷宫：按比例消除死路, 把死路尽头的墙打通到另一条路, 形成环路和多条可选路线
+ * braid 为 0~1 之间的比例, 1 表示尽量消除所有死路
+ */
+export const braidMaze = (
+  maze: Cell[][],
+  braid: number,
+  random: RandomFn,
+  events?: GenerationEvent[]
+): Cell[][] => {
+  // maze[x][y] 结构：外层是 x（列），内层是 y（行）
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const dirs: Position[] = [
+    { x: 0, y: -1 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 1, y: 0 },
+  ];
+  const isPath = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && maze[x]?.[y] === 1;
+  const isInterior = (x: number, y: number) =>
+    x > 0 && x < width - 1 && y > 0 && y < height - 1;
+  const pathNeighborCount = (x: number, y: number) =>
+    dirs.filter((d) => isPath(x + d.x, y + d.y)).length;
+
+  // 找到所有死路尽头（只有一个相邻路格的路格）
+  const deadEnds: Position[] = [];
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 1; y < height - 1; y++) {
+      if (maze[x][y] === 1 && pathNeighborCount(x, y) === 1) {
+        deadEnds.push({ x, y });
+      }
+    }
+  }
+  shuffle(deadEnds, random);
+  const target = Math.round(deadEnds.length * Math.min(1, braid));
+
+  for (const cell of deadEnds.slice(0, target)) {
+    // 前面的打通可能已经让它不再是死路
+    if (pathNeighborCount(cell.x, cell.y) !== 1) continue;
+    // 候选墙：墙的另一侧是路, 且墙两旁（垂直方向）也是墙, 避免打出大片空地
+    const candidates = dirs.filter((d) => {
+      const wx = cell.x + d.x;
+      const wy = cell.y + d.y;
+      return (
+        isInterior(wx, wy) &&
+        !isPath(wx, wy) &&
+        isPath(wx + d.x, wy + d.y) &&
+        !isPath(wx + d.y, wy + d.x) &&
+        !isPath(wx - d.y, wy - d.x)
+      );
+    });
+    if (candidates.length === 0) continue;
+    // 优先连到另一个死路, 一次消除两个
+    const preferred = candidates.filter(
+      (d) => pathNeighborCount(cell.x + d.x * 2, cell.y + d.y * 2) === 1
+    );
+    const pool = preferred.length > 0 ? preferred : candidates;
+    const d = pool[randomInt(random, pool.length)];
+    maze[cell.x + d.x][cell.y + d.y] = 1;
+    events?.push({ type: GenerationEventType.CARVE, pos: { x: cell.x + d.x, y: cell.y + d.y } });
+  }
+
+  return maze;
+};
+
 /**
  * 生成迷宫函数
- * 使用递归回溯算法生成迷宫
+ * 默认使用递归回溯算法生成迷宫, 可通过 algorithm 选择注册表中的其他算法
+ * 传入 random（如 createSeededRandom(seed)）后, 相同参数总是生成相同的迷宫
+ * endpoints 选择起终点的放置方式, 传入 entities 时放置机关, 返回迷宫、起终点和机关
  */
 export const generateMazeGrid = (
   width: number,
   height: number,
-  options?: { branches?: number; branchMaxLength?: number }
-): Cell[][] => {
+  options?: MazeGenerationOptions
+): MazeData => {
+  const random = options?.random ?? Math.random;
+  const generate = MAZE_GENERATORS[options?.algorithm ?? MazeAlgorithm.BACKTRACKING];
+  const endpointMode = options?.endpoints ?? EndpointMode.CORNERS;
   // 数组结构：maze[x][y]，外层是 x（列），内层是 y（行）
-  const maze: Cell[][] = Array(width)
-    .fill(null)
-    .map(() => Array(height).fill(0));
-  const visited: boolean[][] = Array(width)
-    .fill(null)
-    .map(() => Array(height).fill(false));
+  const events = options?.events;
+  const maze = generate(width, height, random, events);
 
-  // 从 (1, 1) 开始生成，确保边界是墙
-  carvePassage(1, 1, maze, visited, width, height);
+  // 对角模式先确保起点和终点是路径, 与之前的随机序列保持一致, 相同种子得到相同迷宫
+  const corners =
+    endpointMode === EndpointMode.CORNERS ? placeEndpoints(maze, endpointMode, random, events) : null;
 
-  // 确保起点和终点是路径
-  maze[1][1] = 1; // 起点
-  maze[width - 2][height - 2] = 1; // 终点
+  // 先打通部分死路形成环路, 再添加新的分支死路
+  if (options?.braid && options.braid > 0) {
+    braidMaze(maze, options.braid, random, events);
+  }
 
   if (options?.branches && options.branches > 0) {
-    addBranches(maze, options.branches, options.branchMaxLength ?? 3);
+    addBranches(maze, options.branches, options.branchMaxLength ?? 3, random, events);
   }
 
-  return maze;
+  // 其他模式依赖最终的迷宫结构（如最远两点）, 在最后放置
+  const { start, end, openings } = corners ?? placeEndpoints(maze, endpointMode, random, events);
+  // 机关最后放置, 不影响迷宫结构和起终点
+  const entities = options?.entities ? placeEntities(maze, start, end, options.entities, random) : undefined;
+  return { maze, start, end, openings, entities };
 };
 
 /**
-     * 定义 将玩家按下的键值映射为方向的函数
+     * 定义 将玩家按下的键值映射为方向的函数, 按键位绑定查找（默认 WASD 和方向键）
      */
-    export const keyToDirection = (key: string): Direction | null => {
-      switch (key.toLowerCase()) {
-        case 'w':
-        case 'arrowup':
-          return Direction.UP;
-        case 's':
-        case 'arrowdown':
-          return Direction.DOWN;
-        case 'a':
-        case 'arrowleft':
-          return Direction.LEFT;
-        case 'd':
-        case 'arrowright':
-          return Direction.RIGHT;
-        default:
-          return null;
-      }
+    export const keyToDirection = (key: string, bindings: KeyBindings = DEFAULT_KEY_BINDINGS): Direction | null => {
+      const normalized = key.toLowerCase();
+      const directions = Object.keys(bindings) as Direction[];
+      return directions.find((direction) => bindings[direction].includes(normalized)) ?? null;
     };
 
+/**
+ * 定义 计算朝某个方向走一步后位置的函数（不检查墙）
+ */
+export const getNextPosition = ({ x, y }: Position, direction: Direction): Position => {
+  switch (direction) {
+    case Direction.UP:
+      return { x, y: y - 1 };
+    case Direction.DOWN:
+      return { x, y: y + 1 };
+    case Direction.LEFT:
+      return { x: x - 1, y };
+    case Direction.RIGHT:
+      return { x: x + 1, y };
+  }
+};
+
+/**
+ * 定义 计算从一格走到相邻一格的方向的函数, 两格不相邻时返回 null
+ */
+export const getDirectionBetween = (from: Position, to: Position): Direction | null => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 && dy === -1) return Direction.UP;
+  if (dx === 0 && dy === 1) return Direction.DOWN;
+  if (dx === -1 && dy === 0) return Direction.LEFT;
+  if (dx === 1 && dy === 0) return Direction.RIGHT;
+  return null;
+};
+
+/**
+ * 定义 计算奔跑路线的函数：朝某个方向出发, 沿走廊（包括拐弯）一直走到岔路口、死路或终点
+ * 返回途经的格子（不含出发点）, 出发方向是墙时返回空数组
+ */
+export const getRunPath = (maze: Cell[][], start: Position, direction: Direction, end: Position): Position[] => {
+  const isOpen = (pos: Position) => maze[pos.x]?.[pos.y] === 1;
+  const directions = [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT];
+  const path: Position[] = [];
+  let previous = start;
+  let current = getNextPosition(start, direction);
+  while (isOpen(current)) {
+    path.push(current);
+    if (current.x === end.x && current.y === end.y) break;
+    const exits = directions
+      .map((d) => getNextPosition(current, d))
+      .filter((next) => isOpen(next) && (next.x !== previous.x || next.y !== previous.y));
+    // 只有一个出口时是走廊, 继续走；没有出口是死路, 多个出口是岔路口
+    if (exits.length !== 1 || (exits[0].x === start.x && exits[0].y === start.y)) break;
+    previous = current;
+    current = exits[0];
+  }
+  return path;
+};
+
 /**
  * 基于 BFS 的最短路径查找, 核心思想:离起点最近的节点先被访问
+ * 传入 events 时, 会记录入队（FRONTIER）和出队（VISIT）事件
  */
 export const findShortestPath = (
   maze: Cell[][],
   start: Position,
-  end: Position
+  end: Position,
+  events?: SearchEvent[]
 ): Position[] => {
   // maze[x][y] 结构：外层是 x（列），内层是 y（行）
   const width = maze.length;
@@ -196,8 +283,11 @@ export const findShortestPath = (
     .fill(null)
     .map(() => Array(height).fill(null));
 
+  // 用队头下标代替 queue.shift(), 出队是 O(1)
   const queue: Position[] = [start];
+  let head = 0;
   visited[start.x][start.y] = true;
+  events?.push({ type: SearchEventType.FRONTIER, pos: start });
 
   const directions: Position[] = [
     { x: 0, y: -1 },
@@ -206,8 +296,9 @@ export const findShortestPath = (
     { x: 1, y: 0 },
   ];
 
-  while (queue.length > 0) {
-    const current = queue.shift() as Position;
+  while (head < queue.length) {
+    const current = queue[head++];
+    events?.push({ type: SearchEventType.VISIT, pos: current });
     if (current.x === end.x && current.y === end.y) {
       break;
     }
@@ -229,6 +320,7 @@ export const findShortestPath = (
         // 设置成已经访问过, 防止之后最近父节点被后来的父节点覆盖
         visited[nx][ny] = true; 
         queue.push({ x: nx, y: ny });
+        events?.push({ type: SearchEventType.FRONTIER, pos: { x: nx, y: ny } });
       }
     }
   }
@@ -246,3 +338,160 @@ export const findShortestPath = (
   // 倒转， 得到从起点到终点的最短的路径
   return path.reverse();
 };
+
+/**
+ * 定义 生成楼梯键的函数, 表示第 level 层和第 level + 1 层在 (x, y) 相通
+ */
+export const stairKey = (x: number, y: number, level: number): string => `${x},${y},${level}`;
+
+/**
+ * 定义 生成多层迷宫的函数
+ * 用三维的深度优先回溯在各层的房间之间挖通道, 走到上 / 下层同一位置的房间时放一个楼梯；
+ * 每个房间以 STAIR_CHANCE 的概率可以放楼梯（优先尝试）, 其他房间只在相邻层还没走到过时才放, 让楼梯不至于太密；
+ * 之后每一层按选项编织和添加分支。起点在第 0 层左上角, 终点在最高层右下角
+ */
+export const generateMultiLevelMaze = (
+  width: number,
+  height: number,
+  levels: number,
+  options?: MazeGenerationOptions
+): MultiLevelMaze => {
+  const random = options?.random ?? Math.random;
+  const floors: Cell[][][] = Array.from({ length: levels }, () =>
+    Array.from({ length: width }, () => Array(height).fill(0))
+  );
+  const stairs = new Set<string>();
+  const visited = new Uint8Array(levels * width * height);
+  const entered = new Uint8Array(levels);
+  const toIndex = (level: number, x: number, y: number) => (level * width + x) * height + y;
+  const planar = [
+    [0, -2, 0],
+    [0, 2, 0],
+    [-2, 0, 0],
+    [2, 0, 0],
+  ];
+  const vertical = [
+    [0, 0, 1],
+    [0, 0, -1],
+  ];
+  const stack: { x: number; y: number; level: number; dirs: number[][]; next: number; stairs: boolean }[] = [];
+
+  // 定义 访问一个房间并压栈的函数
+  const visit = (x: number, y: number, level: number) => {
+    visited[toIndex(level, x, y)] = 1;
+    entered[level] = 1;
+    floors[level][x][y] = 1;
+    const dirs = [...planar];
+    const stairDirs = [...vertical];
+    shuffle(dirs, random);
+    shuffle(stairDirs, random);
+    const allowStairs = random() < STAIR_CHANCE;
+    stack.push({
+      x,
+      y,
+      level,
+      dirs: allowStairs ? [...stairDirs, ...dirs] : [...dirs, ...stairDirs],
+      next: 0,
+      stairs: allowStairs,
+    });
+  };
+
+  visit(1, 1, 0);
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.dirs.length) {
+      stack.pop();
+      continue;
+    }
+    const [dx, dy, dl] = frame.dirs[frame.next++];
+    const nx = frame.x + dx;
+    const ny = frame.y + dy;
+    const nl = frame.level + dl;
+    if (nx <= 0 || nx >= width - 1 || ny <= 0 || ny >= height - 1 || nl < 0 || nl >= levels) continue;
+    if (visited[toIndex(nl, nx, ny)]) continue;
+    if (dl !== 0 && !frame.stairs && entered[nl]) continue;
+    if (dl === 0) {
+      floors[frame.level][frame.x + dx / 2][frame.y + dy / 2] = 1;
+    } else {
+      stairs.add(stairKey(frame.x, frame.y, Math.min(frame.level, nl)));
+    }
+    visit(nx, ny, nl);
+  }
+
+  for (const floor of floors) {
+    if (options?.braid && options.braid > 0) {
+      braidMaze(floor, options.braid, random);
+    }
+    if (options?.branches && options.branches > 0) {
+      addBranches(floor, options.branches, options.branchMaxLength ?? 3, random);
+    }
+  }
+
+  return {
+    floors,
+    stairs,
+    start: { x: 1, y: 1, level: 0 },
+    end: { x: width - 2, y: height - 2, level: levels - 1 },
+  };
+};
+
+/**
+ * 定义 判断能否从某个位置上楼（delta = 1）或下楼（delta = -1）的函数
+ */
+export const canChangeLevel = (maze: MultiLevelMaze, pos: Position, delta: 1 | -1): boolean => {
+  const level = pos.level ?? 0;
+  const target = level + delta;
+  if (target < 0 || target >= maze.floors.length) return false;
+  return maze.stairs.has(stairKey(pos.x, pos.y, Math.min(level, target)));
+};
+
+/**
+ * 定义 在多层迷宫中查找最短路径的函数
+ * 与 findShortestPath 相同的 BFS, 只是每个格子除了上下左右, 有楼梯时还可以上下楼
+ */
+export const findShortestPath3D = (maze: MultiLevelMaze, start: Position, end: Position): Position[] => {
+  const { floors } = maze;
+  const width = floors[0]?.length ?? 0;
+  const height = floors[0]?.[0]?.length ?? 0;
+  const toIndex = (pos: Position) => ((pos.level ?? 0) * width + pos.x) * height + pos.y;
+  const prev = new Int32Array(floors.length * width * height).fill(-1);
+  const queue: Position[] = [start];
+  const startIndex = toIndex(start);
+  const endIndex = toIndex(end);
+  prev[startIndex] = startIndex;
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (toIndex(current) === endIndex) break;
+    const level = current.level ?? 0;
+    const candidates: Position[] = [
+      { x: current.x, y: current.y - 1, level },
+      { x: current.x, y: current.y + 1, level },
+      { x: current.x - 1, y: current.y, level },
+      { x: current.x + 1, y: current.y, level },
+    ];
+    if (canChangeLevel(maze, current, 1)) candidates.push({ x: current.x, y: current.y, level: level + 1 });
+    if (canChangeLevel(maze, current, -1)) candidates.push({ x: current.x, y: current.y, level: level - 1 });
+    for (const next of candidates) {
+      // 与 findShortestPath 一致, 只有内部（不含边界）的路格可以通行
+      if (next.x < 1 || next.x >= width - 1 || next.y < 1 || next.y >= height - 1) continue;
+      if (floors[next.level ?? 0][next.x][next.y] !== 1) continue;
+      const index = toIndex(next);
+      if (prev[index] !== -1) continue;
+      prev[index] = toIndex(current);
+      queue.push(next);
+    }
+  }
+
+  if (prev[endIndex] === -1) return [];
+  // 回溯路径：由一维下标还原出层和坐标
+  const path: Position[] = [];
+  for (let index = endIndex; ; index = prev[index]) {
+    const y = index % height;
+    const x = Math.floor(index / height) % width;
+    const level = Math.floor(index / (width * height));
+    path.push({ x, y, level });
+    if (index === startIndex) break;
+  }
+  return path.reverse();
+};
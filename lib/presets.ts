@@ -0,0 +1,47 @@
+import { MazeAlgorithm, MazePreset } from '@/types';
+import {
+  CUSTOM_SIZE_MIN,
+  CUSTOM_SIZE_MAX,
+  PRESET_BRANCHES_MAX,
+  PRESET_BRANCH_LENGTH_MAX,
+  PRESET_NAME_MAX,
+} from '@/constants';
+
+/**
+ * 定义 校验迷宫边长的函数, 合法时返回 null, 否则返回错误信息
+ */
+const getSizeError = (label: string, size: number): string | null => {
+  if (!Number.isInteger(size) || size < CUSTOM_SIZE_MIN || size > CUSTOM_SIZE_MAX) {
+    return `${label}必须是 ${CUSTOM_SIZE_MIN}-${CUSTOM_SIZE_MAX} 之间的整数`;
+  }
+  // 房间在奇数坐标上, 奇数边长才能保证最外圈都是墙
+  if (size % 2 === 0) {
+    return `${label}必须是奇数`;
+  }
+  return null;
+};
+
+/**
+ * 定义 校验自定义难度的函数, 合法时返回 null, 否则返回第一条错误信息
+ */
+export const getPresetError = (preset: Omit<MazePreset, 'id'>): string | null => {
+  const name = preset.name.trim();
+  if (!name) return '请输入名称';
+  if (name.length > PRESET_NAME_MAX) return `名称最多 ${PRESET_NAME_MAX} 个字`;
+  const sizeError = getSizeError('宽度', preset.width) ?? getSizeError('高度', preset.height);
+  if (sizeError) return sizeError;
+  if (!Number.isInteger(preset.branches) || preset.branches < 0 || preset.branches > PRESET_BRANCHES_MAX) {
+    return `额外分支数必须是 0-${PRESET_BRANCHES_MAX} 之间的整数`;
+  }
+  if (
+    !Number.isInteger(preset.branchMaxLength) ||
+    preset.branchMaxLength < 1 ||
+    preset.branchMaxLength > PRESET_BRANCH_LENGTH_MAX
+  ) {
+    return `分支长度必须是 1-${PRESET_BRANCH_LENGTH_MAX} 之间的整数`;
+  }
+  if (!Object.values(MazeAlgorithm).includes(preset.algorithm)) {
+    return '未知的生成算法';
+  }
+  return null;
+};
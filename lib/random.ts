@@ -0,0 +1,60 @@
+import { RandomFn } from '@/types';
+
+/**
+ * 种子最大值（32 位无符号整数）
+ */
+const SEED_RANGE = 0x100000000;
+
+/**
+ * Mulberry32 伪随机数生成器
+ * 相同的种子总是产生相同的随机序列, 返回值范围 [0, 1)
+ */
+export const createSeededRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / SEED_RANGE;
+  };
+};
+
+/**
+ * 生成一个新的随机种子
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * SEED_RANGE);
+
+/**
+ * 定义 将玩家输入的文本转换为种子的函数
+ * 纯数字直接作为种子, 其他文本通过 FNV-1a 哈希得到种子, 空输入返回 null
+ */
+export const parseSeed = (input: string): number | null => {
+  const text = input.trim();
+  if (!text) return null;
+  if (/^\d+$/.test(text)) {
+    return Number(BigInt(text) % BigInt(SEED_RANGE));
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 定义 在 [0, max) 内取随机整数的函数
+ */
+export const randomInt = (random: RandomFn, max: number): number =>
+  Math.floor(random() * max);
+
+/**
+ * Fisher-Yates 洗牌算法
+ */
+export const shuffle = <T,>(array: T[], random: RandomFn = Math.random): void => {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+};
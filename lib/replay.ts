@@ -0,0 +1,114 @@
+import { Cell, Direction, Difficulty, MazeAlgorithm, MazeEntity, Position, Replay, ReplayMove } from '@/types';
+import { encodeMazeCode, decodeMazeCode, MazeFormatError } from '@/lib/mazeFormat';
+import { getNextPosition } from '@/lib/mazeUtils';
+import { collectAt, createEntityIndex, getEntityMove } from '@/lib/entities';
+
+/**
+ * 录像文件的类型标记和版本号, 格式变化时递增
+ * 版本 2 的迷宫链接码包含出入口、机关和自定义难度名称；版本 1 没有, 仍然可以观看
+ */
+const REPLAY_TYPE = 'next-maze-replay';
+const REPLAY_VERSION = 2;
+const LEGACY_REPLAY_VERSION = 1;
+
+/**
+ * 定义 按录像逐步计算玩家位置的函数
+ * 返回长度为 moves.length + 1 的数组, 第 i 项是走完前 i 步后的位置；遇到走不通的一步时抛出错误
+ * 与玩家移动一样按机关规则移动（开门、传送等）, 没有机关时就是普通的移动
+ */
+export const getReplayPositions = (
+  maze: Cell[][],
+  start: Position,
+  moves: ReplayMove[],
+  entities: MazeEntity[] = []
+): Position[] => {
+  const index = createEntityIndex(entities);
+  const positions = [start];
+  let current = start;
+  let collected = new Set<string>();
+  moves.forEach(({ direction }, i) => {
+    const next = getEntityMove(maze, index, current, direction, collected);
+    if (!next) {
+      const blocked = getNextPosition(current, direction);
+      throw new MazeFormatError(`第 ${i + 1} 步走不通：(${blocked.x}, ${blocked.y})`);
+    }
+    collected = collectAt(index, next, collected);
+    positions.push(next);
+    current = next;
+  });
+  return positions;
+};
+
+/**
+ * 定义 把录像转换为 JSON 文本的函数
+ * 迷宫（包括出入口和机关）用链接码保存, 每一步保存为 [方向, 时间] 以减小文件体积
+ */
+export const serializeReplay = ({ data, moves }: Replay): string =>
+  JSON.stringify({
+    type: REPLAY_TYPE,
+    version: REPLAY_VERSION,
+    seed: data.seed,
+    algorithm: data.algorithm,
+    difficulty: data.difficulty,
+    maze: encodeMazeCode(data),
+    moves: moves.map(({ direction, time }) => [direction, time]),
+  });
+
+/**
+ * 定义 解析录像 JSON 文本的函数, 校验迷宫和每一步是否合法
+ */
+export const parseReplay = (text: string): Replay => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new MazeFormatError('录像文件不是合法的 JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || raw.type !== REPLAY_TYPE) {
+    throw new MazeFormatError('不是迷宫录像文件');
+  }
+  if (raw.version !== REPLAY_VERSION && raw.version !== LEGACY_REPLAY_VERSION) {
+    throw new MazeFormatError(`不支持的录像版本：${String(raw.version)}`);
+  }
+  if (typeof raw.maze !== 'string') {
+    throw new MazeFormatError('录像缺少迷宫');
+  }
+  if (!Array.isArray(raw.moves)) {
+    throw new MazeFormatError('moves 必须是数组');
+  }
+  if (raw.seed !== undefined && !Number.isInteger(raw.seed)) {
+    throw new MazeFormatError('seed 必须是整数');
+  }
+  if (
+    raw.algorithm !== undefined &&
+    !Object.values(MazeAlgorithm).includes(raw.algorithm as MazeAlgorithm)
+  ) {
+    throw new MazeFormatError(`未知的生成算法：${String(raw.algorithm)}`);
+  }
+  if (
+    raw.difficulty !== undefined &&
+    !Object.values(Difficulty).includes(raw.difficulty as Difficulty)
+  ) {
+    throw new MazeFormatError(`未知的难度：${String(raw.difficulty)}`);
+  }
+  const directions = Object.values(Direction) as string[];
+  let lastTime = 0;
+  const moves = raw.moves.map((move: unknown, i): ReplayMove => {
+    if (!Array.isArray(move) || !directions.includes(move[0]) || typeof move[1] !== 'number') {
+      throw new MazeFormatError(`第 ${i + 1} 步格式不正确`);
+    }
+    if (move[1] < lastTime) {
+      throw new MazeFormatError(`第 ${i + 1} 步的时间早于上一步`);
+    }
+    lastTime = move[1];
+    return { direction: move[0] as Direction, time: move[1] };
+  });
+  const data = {
+    ...decodeMazeCode(raw.maze),
+    seed: raw.seed as number | undefined,
+    algorithm: raw.algorithm as MazeAlgorithm | undefined,
+    difficulty: raw.difficulty as Difficulty | undefined,
+  };
+  getReplayPositions(data.maze, data.start, moves, data.entities);
+  return { data, moves };
+};
@@ -0,0 +1,47 @@
+import { RunStats } from '@/types';
+
+/**
+ * 创建一局新游戏的统计
+ */
+export const createRunStats = (): RunStats => ({
+  startedAt: null,
+  finishedAt: null,
+  moves: 0,
+  backtracks: 0,
+  autoSolved: false,
+  hintsUsed: 0,
+  hintPenalty: 0,
+});
+
+/**
+ * 计算已用时间（毫秒）, 未结束时算到 now
+ */
+export const getElapsedMs = (stats: RunStats, now: number): number => {
+  if (stats.startedAt === null) return 0;
+  return (stats.finishedAt ?? now) - stats.startedAt;
+};
+
+/**
+ * 计算效率分（0-100）：最短路线步数 / 玩家步数
+ * 走最短路线时为 100, 绕路越多分数越低
+ */
+export const calculateEfficiency = (optimalSteps: number, moves: number): number => {
+  if (moves <= 0 || optimalSteps <= 0) return 0;
+  return Math.min(100, Math.round((optimalSteps / moves) * 100));
+};
+
+/**
+ * 计算最终得分：效率分减去提示扣分, 最低为 0
+ */
+export const calculateScore = (efficiency: number, hintPenalty: number): number =>
+  Math.max(0, efficiency - hintPenalty);
+
+/**
+ * 把毫秒格式化为 m:ss.t
+ */
+export const formatDuration = (ms: number): string => {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths % 10}`;
+};
@@ -0,0 +1,444 @@
+import {
+  Cell,
+  Position,
+  MazeSolver,
+  SolverAlgorithm,
+  SolverResult,
+  SearchEvent,
+  SearchEventType,
+} from '@/types';
+import { findShortestPath } from '@/lib/mazeUtils';
+
+/**
+ * 说明：格子用一维下标 index = x * height + y 表示, 便于用 TypedArray 记录状态
+ * 与 findShortestPath 一致, 只有内部（不含边界）的路格可以通行
+ */
+
+/**
+ * 四个方向, 按顺时针排列：上 右 下 左
+ * 顺时针排列让"左转 / 右转"可以用下标 -1 / +1 表示
+ */
+const DIRECTIONS: Position[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+/**
+ * 定义 创建迷宫访问工具的函数：下标转换、判断是否可通行
+ */
+const createGridHelpers = (maze: Cell[][]) => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const toIndex = (x: number, y: number) => x * height + y;
+  const toPos = (index: number): Position => ({ x: Math.floor(index / height), y: index % height });
+  const isOpen = (x: number, y: number) =>
+    x >= 1 && x < width - 1 && y >= 1 && y < height - 1 && maze[x]?.[y] === 1;
+  return { width, height, size: width * height, toIndex, toPos, isOpen };
+};
+
+/**
+ * 定义 根据前驱数组回溯出路径的函数
+ */
+const tracePath = (prev: Int32Array, endIndex: number, toPos: (index: number) => Position): Position[] => {
+  const path: Position[] = [];
+  for (let i = endIndex; i !== -1; i = prev[i]) {
+    path.push(toPos(i));
+  }
+  return path.reverse();
+};
+
+/**
+ * 定义 记录"擦除环"后行走路线的工具
+ * 走回路线上已有的格子时, 把之后的部分删掉, 最终得到一条不重复的路线
+ */
+const createRoute = (size: number) => {
+  const route: number[] = [];
+  const indexInRoute = new Int32Array(size).fill(-1);
+  const step = (index: number) => {
+    if (indexInRoute[index] !== -1) {
+      while (route[route.length - 1] !== index) {
+        indexInRoute[route.pop() as number] = -1;
+      }
+      return;
+    }
+    indexInRoute[index] = route.length;
+    route.push(index);
+  };
+  return { route, step };
+};
+
+/**
+ * 定义 记录搜索过程的工具
+ * visited 记录探索过的格子（用于统计）, events 记录回放用的边界 / 访问事件
+ */
+const createRecorder = () => {
+  const visited: Position[] = [];
+  const events: SearchEvent[] = [];
+  return {
+    visited,
+    frontier: (pos: Position) => {
+      events.push({ type: SearchEventType.FRONTIER, pos });
+    },
+    visit: (pos: Position) => {
+      events.push({ type: SearchEventType.VISIT, pos });
+    },
+    result: (path: Position[]): SolverResult => ({ path, visited, events }),
+  };
+};
+
+/**
+ * 广度优先搜索：逐层向外扩展, 保证最短
+ */
+const bfs: MazeSolver = (maze, start, end) => {
+  const events: SearchEvent[] = [];
+  const path = findShortestPath(maze, start, end, events);
+  const visited = events
+    .filter((event) => event.type === SearchEventType.VISIT)
+    .map((event) => event.pos);
+  return { path, visited, events };
+};
+
+/**
+ * 定义 最小堆的入堆和出堆函数, 元素为 [f, h, index], 先比较 f 再比较 h
+ */
+type HeapItem = [number, number, number];
+const lessThan = (a: HeapItem, b: HeapItem) => a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]);
+
+const heapPush = (heap: HeapItem[], item: HeapItem): void => {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!lessThan(heap[i], heap[parent])) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: HeapItem[]): HeapItem | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && lessThan(heap[left], heap[smallest])) smallest = left;
+      if (right < heap.length && lessThan(heap[right], heap[smallest])) smallest = right;
+      if (smallest === i) break;
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+      i = smallest;
+    }
+  }
+  return top;
+};
+
+/**
+ * A* 搜索：按"已走步数 + 曼哈顿距离"优先扩展, 朝终点方向搜索, 保证最短
+ */
+const aStar: MazeSolver = (maze, start, end) => {
+  const { size, toIndex, toPos, isOpen } = createGridHelpers(maze);
+  const record = createRecorder();
+  if (!isOpen(start.x, start.y)) return record.result([]);
+  const cost = new Int32Array(size).fill(-1);
+  const prev = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const heuristic = (x: number, y: number) => Math.abs(x - end.x) + Math.abs(y - end.y);
+
+  const startIndex = toIndex(start.x, start.y);
+  const endIndex = toIndex(end.x, end.y);
+  cost[startIndex] = 0;
+  const heap: HeapItem[] = [[heuristic(start.x, start.y), heuristic(start.x, start.y), startIndex]];
+  record.frontier(start);
+
+  while (heap.length > 0) {
+    const [, , current] = heapPop(heap) as HeapItem;
+    if (closed[current]) continue;
+    closed[current] = 1;
+    const pos = toPos(current);
+    record.visited.push(pos);
+    record.visit(pos);
+    if (current === endIndex) {
+      return record.result(tracePath(prev, endIndex, toPos));
+    }
+    for (const dir of DIRECTIONS) {
+      const nx = pos.x + dir.x;
+      const ny = pos.y + dir.y;
+      if (!isOpen(nx, ny)) continue;
+      const next = toIndex(nx, ny);
+      const nextCost = cost[current] + 1;
+      if (closed[next] || (cost[next] !== -1 && cost[next] <= nextCost)) continue;
+      cost[next] = nextCost;
+      prev[next] = current;
+      const h = heuristic(nx, ny);
+      heapPush(heap, [nextCost + h, h, next]);
+      record.frontier({ x: nx, y: ny });
+    }
+  }
+  return record.result([]);
+};
+
+/**
+ * 双向广度优先搜索：从起点和终点同时逐层扩展, 两边相遇即找到最短路径
+ * 每次扩展较小的一侧, 搜索范围通常比单向 BFS 小很多
+ */
+const bidirectionalBfs: MazeSolver = (maze, start, end) => {
+  const { size, toIndex, toPos, isOpen } = createGridHelpers(maze);
+  const record = createRecorder();
+  if (!isOpen(start.x, start.y) || !isOpen(end.x, end.y)) return record.result([]);
+  const startIndex = toIndex(start.x, start.y);
+  const endIndex = toIndex(end.x, end.y);
+  record.visited.push(start);
+  record.frontier(start);
+  if (startIndex === endIndex) return record.result([start]);
+  record.visited.push(end);
+  record.frontier(end);
+
+  // 两侧各自的距离和前驱, 下标 0 为起点一侧, 1 为终点一侧
+  const dist = [new Int32Array(size).fill(-1), new Int32Array(size).fill(-1)];
+  const prev = [new Int32Array(size).fill(-1), new Int32Array(size).fill(-1)];
+  const frontiers = [[startIndex], [endIndex]];
+  dist[0][startIndex] = 0;
+  dist[1][endIndex] = 0;
+
+  let meet = -1;
+  let best = Infinity;
+  while (meet === -1 && frontiers[0].length > 0 && frontiers[1].length > 0) {
+    const side = frontiers[0].length <= frontiers[1].length ? 0 : 1;
+    const other = 1 - side;
+    const nextFrontier: number[] = [];
+    // 扩展完整的一层再判断相遇, 保证相遇点给出的是最短路径
+    for (const current of frontiers[side]) {
+      const pos = toPos(current);
+      record.visit(pos);
+      for (const dir of DIRECTIONS) {
+        const nx = pos.x + dir.x;
+        const ny = pos.y + dir.y;
+        if (!isOpen(nx, ny)) continue;
+        const next = toIndex(nx, ny);
+        if (dist[side][next] !== -1) continue;
+        dist[side][next] = dist[side][current] + 1;
+        prev[side][next] = current;
+        nextFrontier.push(next);
+        if (dist[other][next] === -1) {
+          record.visited.push({ x: nx, y: ny });
+          record.frontier({ x: nx, y: ny });
+        } else if (dist[side][next] + dist[other][next] < best) {
+          best = dist[side][next] + dist[other][next];
+          meet = next;
+        }
+      }
+    }
+    frontiers[side] = nextFrontier;
+  }
+
+  if (meet === -1) return record.result([]);
+  // 起点 -> 相遇点, 再接上 相遇点 -> 终点（不重复相遇点）
+  const fromStart = tracePath(prev[0], meet, toPos);
+  const toEnd = tracePath(prev[1], meet, toPos).reverse().slice(1);
+  return record.result([...fromStart, ...toEnd]);
+};
+
+/**
+ * 定义 创建沿墙走（左手 / 右手法则）寻路函数的函数
+ * hand 为 -1 时优先左转（左手扶墙）, 为 1 时优先右转（右手扶墙）
+ * 起点不与外墙相连时可能绕圈, 检测到同一位置同一朝向重复出现即判定失败
+ */
+const createWallFollower = (hand: -1 | 1): MazeSolver => (maze, start, end) => {
+  const { width, height, size, toIndex, toPos, isOpen } = createGridHelpers(maze);
+  const record = createRecorder();
+  if (!isOpen(start.x, start.y)) return record.result([]);
+  const seenCell = new Uint8Array(size);
+  const seenState = new Uint8Array(size * 4);
+  const { route, step } = createRoute(size);
+  const endIndex = toIndex(end.x, end.y);
+
+  let x = start.x;
+  let y = start.y;
+  // 初始朝向：让扶墙的手贴着墙, 起点挨着外墙时优先扶外墙, 避免绕着内部的孤岛打转
+  const handSide = (d: number) => DIRECTIONS[(d + hand + 4) % 4];
+  const touchesWall = (d: number) => !isOpen(x + handSide(d).x, y + handSide(d).y);
+  const touchesBorder = (d: number) => {
+    const wx = x + handSide(d).x;
+    const wy = y + handSide(d).y;
+    return wx === 0 || wy === 0 || wx === width - 1 || wy === height - 1;
+  };
+  let dir =
+    [0, 1, 2, 3].find((d) => touchesWall(d) && touchesBorder(d)) ??
+    [0, 1, 2, 3].find(touchesWall) ??
+    0;
+  let current = toIndex(x, y);
+  seenCell[current] = 1;
+  record.visited.push(start);
+  record.frontier(start);
+  step(current);
+
+  while (current !== endIndex) {
+    if (seenState[current * 4 + dir]) return record.result([]);
+    seenState[current * 4 + dir] = 1;
+    // 依次尝试：扶墙一侧、直行、另一侧、掉头
+    const turn = [hand, 0, -hand, 2].find((t) => {
+      const d = DIRECTIONS[(dir + t + 4) % 4];
+      return isOpen(x + d.x, y + d.y);
+    });
+    if (turn === undefined) return record.result([]);
+    dir = (dir + turn + 4) % 4;
+    // 离开的格子记为已访问, 走到的格子作为当前边界
+    record.visit({ x, y });
+    x += DIRECTIONS[dir].x;
+    y += DIRECTIONS[dir].y;
+    current = toIndex(x, y);
+    if (!seenCell[current]) {
+      seenCell[current] = 1;
+      record.visited.push({ x, y });
+    }
+    record.frontier({ x, y });
+    step(current);
+  }
+  return record.result(route.map(toPos));
+};
+
+/**
+ * Trémaux 算法：走过的通道做记号
+ * 走到以前来过的格子且来路只有一个记号时掉头, 否则走记号最少的通道, 不走有两个记号的通道
+ */
+const tremaux: MazeSolver = (maze, start, end) => {
+  const { size, height, toIndex, toPos, isOpen } = createGridHelpers(maze);
+  const record = createRecorder();
+  if (!isOpen(start.x, start.y)) return record.result([]);
+  // 每条通道的记号数, 通道记在左/上方的格子上：index * 2 + 0 表示向右, + 1 表示向下
+  const marks = new Uint8Array(size * 2);
+  const edgeKey = (index: number, dir: number) => {
+    switch (dir) {
+      case 0:
+        return (index - 1) * 2 + 1;
+      case 1:
+        return index * 2;
+      case 2:
+        return index * 2 + 1;
+      default:
+        return (index - height) * 2;
+    }
+  };
+  const seenCell = new Uint8Array(size);
+  const { route, step } = createRoute(size);
+  const endIndex = toIndex(end.x, end.y);
+
+  let x = start.x;
+  let y = start.y;
+  let current = toIndex(x, y);
+  let backDir = -1;
+  seenCell[current] = 1;
+  record.visited.push(start);
+  record.frontier(start);
+  step(current);
+
+  while (current !== endIndex) {
+    const options = [0, 1, 2, 3].filter((d) =>
+      isOpen(x + DIRECTIONS[d].x, y + DIRECTIONS[d].y)
+    );
+    let chosen: number | undefined;
+    if (backDir !== -1 && seenCell[current] === 2 && marks[edgeKey(current, backDir)] === 1) {
+      // 来到走过的格子, 且来路是新通道：掉头
+      chosen = backDir;
+    } else {
+      // 走记号最少的通道, 相同时不走回头路
+      for (const d of options) {
+        if (marks[edgeKey(current, d)] >= 2) continue;
+        if (
+          chosen === undefined ||
+          marks[edgeKey(current, d)] < marks[edgeKey(current, chosen)] ||
+          (marks[edgeKey(current, d)] === marks[edgeKey(current, chosen)] && chosen === backDir)
+        ) {
+          chosen = d;
+        }
+      }
+    }
+    // 所有通道都有两个记号：终点不可达
+    if (chosen === undefined) return record.result([]);
+
+    marks[edgeKey(current, chosen)]++;
+    record.visit({ x, y });
+    x += DIRECTIONS[chosen].x;
+    y += DIRECTIONS[chosen].y;
+    current = toIndex(x, y);
+    backDir = (chosen + 2) % 4;
+    // seenCell: 0 未到过, 1 第一次到达, 2 到过不止一次
+    if (seenCell[current] === 0) {
+      seenCell[current] = 1;
+      record.visited.push({ x, y });
+    } else {
+      seenCell[current] = 2;
+    }
+    record.frontier({ x, y });
+    step(current);
+  }
+  return record.result(route.map(toPos));
+};
+
+/**
+ * 死路填充：反复把死路（只有一个出口的格子）填成墙, 剩下的格子就是解
+ * 有环路时剩下的部分可能不止一条路, 再用 BFS 从中取最短的一条
+ */
+const deadEndFilling: MazeSolver = (maze, start, end) => {
+  const { width, height, size, toIndex, toPos, isOpen } = createGridHelpers(maze);
+  const record = createRecorder();
+  const startIndex = toIndex(start.x, start.y);
+  const endIndex = toIndex(end.x, end.y);
+  const filled = new Uint8Array(size);
+  const degree = new Int32Array(size);
+  const stack: number[] = [];
+
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 1; y < height - 1; y++) {
+      if (!isOpen(x, y)) continue;
+      const index = toIndex(x, y);
+      degree[index] = DIRECTIONS.filter((d) => isOpen(x + d.x, y + d.y)).length;
+      if (degree[index] <= 1 && index !== startIndex && index !== endIndex) {
+        stack.push(index);
+      }
+    }
+  }
+
+  while (stack.length > 0) {
+    const current = stack.pop() as number;
+    if (filled[current]) continue;
+    filled[current] = 1;
+    const pos = toPos(current);
+    record.visited.push(pos);
+    record.visit(pos);
+    for (const dir of DIRECTIONS) {
+      const nx = pos.x + dir.x;
+      const ny = pos.y + dir.y;
+      if (!isOpen(nx, ny)) continue;
+      const next = toIndex(nx, ny);
+      if (filled[next]) continue;
+      degree[next]--;
+      if (degree[next] <= 1 && next !== startIndex && next !== endIndex) {
+        stack.push(next);
+      }
+    }
+  }
+
+  const remaining: Cell[][] = maze.map((column, x) =>
+    column.map((cell, y) => (cell === 1 && !filled[toIndex(x, y)] ? 1 : 0))
+  );
+  return record.result(findShortestPath(remaining, start, end));
+};
+
+/**
+ * 寻路算法注册表：所有算法都返回路径和访问顺序
+ */
+export const MAZE_SOLVERS: Record<SolverAlgorithm, MazeSolver> = {
+  [SolverAlgorithm.BFS]: bfs,
+  [SolverAlgorithm.A_STAR]: aStar,
+  [SolverAlgorithm.BIDIRECTIONAL_BFS]: bidirectionalBfs,
+  [SolverAlgorithm.LEFT_HAND]: createWallFollower(-1),
+  [SolverAlgorithm.RIGHT_HAND]: createWallFollower(1),
+  [SolverAlgorithm.TREMAUX]: tremaux,
+  [SolverAlgorithm.DEAD_END_FILLING]: deadEndFilling,
+};
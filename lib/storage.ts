@@ -0,0 +1,138 @@
+import { Difficulty, Direction, KeyBindings, MazePreset, RunRecord } from '@/types';
+import { RUN_HISTORY_LIMIT, DEFAULT_KEY_BINDINGS } from '@/constants';
+import { getPresetError } from '@/lib/presets';
+
+// localStorage 的键名, 带版本号以便将来修改数据结构
+const HISTORY_KEY = 'next-maze:history:v1';
+const SETTINGS_KEY = 'next-maze:settings:v1';
+const PRESETS_KEY = 'next-maze:presets:v1';
+
+/**
+ * 本地保存的偏好设置
+ */
+export type StoredSettings = {
+  difficulty?: Difficulty;
+  keyBindings?: KeyBindings;
+};
+
+/**
+ * 读取并解析 localStorage 中的 JSON, 不可用（服务端渲染、隐私模式）或数据损坏时返回默认值
+ */
+const readStorage = <T>(key: string, fallback: T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * 写入 localStorage, 空间不足或不可用时静默失败（不影响游戏）
+ */
+const writeStorage = (key: string, value: unknown): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // 忽略写入失败
+  }
+};
+
+/**
+ * 读取游戏记录, 最新的在前
+ */
+export const loadRunHistory = (): RunRecord[] => {
+  const history = readStorage<unknown>(HISTORY_KEY, []);
+  return Array.isArray(history) ? (history as RunRecord[]) : [];
+};
+
+/**
+ * 保存一局游戏记录, 超过上限时丢弃最旧的记录, 返回保存后的全部记录
+ */
+export const saveRunRecord = (record: RunRecord): RunRecord[] => {
+  const history = [record, ...loadRunHistory()].slice(0, RUN_HISTORY_LIMIT);
+  writeStorage(HISTORY_KEY, history);
+  return history;
+};
+
+/**
+ * 清空游戏记录
+ */
+export const clearRunHistory = (): void => {
+  writeStorage(HISTORY_KEY, []);
+};
+
+/**
+ * 读取偏好设置
+ */
+export const loadSettings = (): StoredSettings => readStorage<StoredSettings>(SETTINGS_KEY, {});
+
+/**
+ * 合并保存偏好设置
+ */
+export const saveSettings = (settings: StoredSettings): void => {
+  writeStorage(SETTINGS_KEY, { ...loadSettings(), ...settings });
+};
+
+/**
+ * 读取键位绑定, 没有保存过或数据不完整时使用默认键位
+ */
+export const loadKeyBindings = (): KeyBindings => {
+  const { keyBindings } = loadSettings();
+  const isValid =
+    typeof keyBindings === 'object' &&
+    keyBindings !== null &&
+    Object.values(Direction).every(
+      (direction) =>
+        Array.isArray(keyBindings[direction]) &&
+        keyBindings[direction].length > 0 &&
+        keyBindings[direction].every((key) => typeof key === 'string')
+    );
+  return isValid ? keyBindings : DEFAULT_KEY_BINDINGS;
+};
+
+/**
+ * 读取自定义难度, 丢弃不合法的条目
+ */
+export const loadPresets = (): MazePreset[] => {
+  const presets = readStorage<unknown>(PRESETS_KEY, []);
+  if (!Array.isArray(presets)) return [];
+  return (presets as MazePreset[]).filter(
+    (preset) => typeof preset?.id === 'string' && typeof preset.name === 'string' && getPresetError(preset) === null
+  );
+};
+
+/**
+ * 保存自定义难度, 同名的预设会被覆盖, 返回保存后的全部预设
+ */
+export const savePreset = (preset: MazePreset): MazePreset[] => {
+  const presets = [...loadPresets().filter((saved) => saved.name !== preset.name), preset];
+  writeStorage(PRESETS_KEY, presets);
+  return presets;
+};
+
+/**
+ * 删除自定义难度, 返回删除后的全部预设
+ */
+export const deletePreset = (id: string): MazePreset[] => {
+  const presets = loadPresets().filter((preset) => preset.id !== id);
+  writeStorage(PRESETS_KEY, presets);
+  return presets;
+};
+
+/**
+ * 读取记录的得分, 旧记录没有 score 字段时使用效率分
+ */
+export const getRecordScore = (record: RunRecord): number => record.score ?? record.efficiency;
+
+/**
+ * 排行榜：某个内置难度下未使用一键通关的记录, 按得分从高到低, 同分时用时短的在前
+ * 自定义难度的尺寸各不相同, 其记录不进入排行榜
+ */
+export const getLeaderboard = (history: RunRecord[], difficulty: Difficulty, size: number): RunRecord[] =>
+  history
+    .filter((record) => record.difficulty === difficulty && record.preset === undefined && !record.autoSolved)
+    .sort((a, b) => getRecordScore(b) - getRecordScore(a) || a.time - b.time)
+    .slice(0, size);
@@ -0,0 +1,218 @@
+import { Topology, TopologyDirection, TopologyGrid } from '@/types';
+
+/**
+ * 说明：非方格拓扑用一维下标表示格子, 每个格子记录多边形顶点和每条边另一侧的格子,
+ * 渲染时按边画墙, 生成和寻路只依赖 neighbors, 与具体形状无关
+ */
+
+const SQRT3 = Math.sqrt(3);
+
+/**
+ * 圆形迷宫中每段圆弧的最大弧度, 圆弧用折线近似
+ */
+const ARC_STEP = 0.2;
+
+/**
+ * 定义 创建空网格的函数, 之后由各拓扑逐个添加格子
+ */
+const createGrid = (topology: Topology, cellCount: number, width: number, height: number): TopologyGrid => ({
+  topology,
+  cellCount,
+  width,
+  height,
+  neighbors: Array.from({ length: cellCount }, () => []),
+  polygons: Array(cellCount).fill(null),
+  sides: Array(cellCount).fill(null),
+  centers: Array(cellCount).fill(null),
+  moves: Array.from({ length: cellCount }, () => ({})),
+});
+
+/**
+ * 定义 根据 sides 填充去重后的邻居列表的函数
+ */
+const fillNeighbors = (grid: TopologyGrid): TopologyGrid => {
+  grid.neighbors = grid.sides.map((sides) => [
+    ...new Set(sides.filter((side): side is number => side !== null)),
+  ]);
+  return grid;
+};
+
+/**
+ * 六边形网格（尖顶, 奇数行向右错开半格）
+ * 顶点从右上开始顺时针排列, 六条边依次是：右、右下、左下、左、左上、右上
+ */
+const createHexGrid = (cols: number, rows: number): TopologyGrid => {
+  const grid = createGrid(Topology.HEX, cols * rows, SQRT3 * (cols + 0.5), 1.5 * rows + 0.5);
+  const index = (col: number, row: number) =>
+    col >= 0 && col < cols && row >= 0 && row < rows ? row * cols + col : null;
+
+  for (let row = 0; row < rows; row++) {
+    // 奇数行向右错开, 斜向邻居的列号因此不同
+    const shift = row % 2;
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col;
+      const cx = SQRT3 * (col + 0.5 + shift * 0.5);
+      const cy = 1 + 1.5 * row;
+      grid.centers[i] = [cx, cy];
+      grid.polygons[i] = Array.from({ length: 6 }, (_, k): [number, number] => {
+        const angle = (Math.PI / 3) * k - Math.PI / 6;
+        return [cx + Math.cos(angle), cy + Math.sin(angle)];
+      });
+      const right = index(col + 1, row);
+      const downRight = index(col + shift, row + 1);
+      const downLeft = index(col + shift - 1, row + 1);
+      const left = index(col - 1, row);
+      const upLeft = index(col + shift - 1, row - 1);
+      const upRight = index(col + shift, row - 1);
+      grid.sides[i] = [right, downRight, downLeft, left, upLeft, upRight];
+      const moves = grid.moves[i];
+      ([
+        [TopologyDirection.RIGHT, right],
+        [TopologyDirection.DOWN_RIGHT, downRight],
+        [TopologyDirection.DOWN_LEFT, downLeft],
+        [TopologyDirection.LEFT, left],
+        [TopologyDirection.UP_LEFT, upLeft],
+        [TopologyDirection.UP_RIGHT, upRight],
+      ] as const).forEach(([direction, target]) => {
+        if (target !== null) moves[direction] = [target];
+      });
+    }
+  }
+  return fillNeighbors(grid);
+};
+
+/**
+ * 三角形网格：每行 cols 个三角形, (col + row) 为偶数时尖朝上, 否则尖朝下
+ * 尖朝上的三角形有左、右、下三个邻居, 尖朝下的有上、右、左三个邻居
+ */
+const createTriangleGrid = (cols: number, rows: number): TopologyGrid => {
+  const h = SQRT3 / 2;
+  const grid = createGrid(Topology.TRIANGLE, cols * rows, (cols + 1) / 2, rows * h);
+  const index = (col: number, row: number) =>
+    col >= 0 && col < cols && row >= 0 && row < rows ? row * cols + col : null;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col;
+      const x = col / 2;
+      const top = row * h;
+      const bottom = (row + 1) * h;
+      const left = index(col - 1, row);
+      const right = index(col + 1, row);
+      const moves = grid.moves[i];
+      if (left !== null) moves[TopologyDirection.LEFT] = [left];
+      if (right !== null) moves[TopologyDirection.RIGHT] = [right];
+      if ((col + row) % 2 === 0) {
+        const down = index(col, row + 1);
+        grid.polygons[i] = [[x, bottom], [x + 0.5, top], [x + 1, bottom]];
+        grid.sides[i] = [left, right, down];
+        grid.centers[i] = [x + 0.5, top + (h * 2) / 3];
+        if (down !== null) moves[TopologyDirection.DOWN] = [down];
+      } else {
+        const up = index(col, row - 1);
+        grid.polygons[i] = [[x, top], [x + 1, top], [x + 0.5, bottom]];
+        grid.sides[i] = [up, right, left];
+        grid.centers[i] = [x + 0.5, top + h / 3];
+        if (up !== null) moves[TopologyDirection.UP] = [up];
+      }
+    }
+  }
+  return fillNeighbors(grid);
+};
+
+/**
+ * 圆形（theta）网格：中心是一个圆形格子, 外圈的格子数是内圈的整数倍, 让格子大致保持方形
+ * 每个格子的邻居：顺 / 逆时针相邻的格子、内圈的父格子、外圈的一个或多个子格子
+ */
+const createThetaGrid = (rings: number): TopologyGrid => {
+  // 每一圈的格子数, 内圈格子 i 在外圈的子格子是 [i * ratio, (i + 1) * ratio)
+  const counts = [1];
+  for (let r = 1; r < rings; r++) {
+    const previous = counts[r - 1];
+    const cellWidth = (2 * Math.PI * r) / previous;
+    counts.push(previous * Math.max(1, Math.round(cellWidth)));
+  }
+  const offsets = counts.map((_, r) => counts.slice(0, r).reduce((sum, n) => sum + n, 0));
+  const cellCount = offsets[rings - 1] + counts[rings - 1];
+  const grid = createGrid(Topology.THETA, cellCount, rings * 2, rings * 2);
+  const index = (r: number, i: number) => offsets[r] + ((i + counts[r]) % counts[r]);
+  // 定义 计算极坐标点的函数, 圆心在网格中央, 角度 0 指向正上方并顺时针增加
+  const point = (radius: number, angle: number): [number, number] => [
+    rings + radius * Math.sin(angle),
+    rings - radius * Math.cos(angle),
+  ];
+
+  for (let r = 0; r < rings; r++) {
+    const n = counts[r];
+    const theta = (2 * Math.PI) / n;
+    const ratio = r < rings - 1 ? counts[r + 1] / n : 0;
+    for (let i = 0; i < n; i++) {
+      const cell = index(r, i);
+      const a0 = i * theta;
+      const a1 = (i + 1) * theta;
+      const polygon: [number, number][] = [];
+      const sides: (number | null)[] = [];
+      // 定义 沿圆弧添加顶点的函数, 每一段边都属于 side 指定的格子
+      const addArc = (radius: number, from: number, to: number, side: number | null) => {
+        const segments = Math.max(1, Math.ceil(Math.abs(to - from) / ARC_STEP));
+        for (let s = 0; s < segments; s++) {
+          polygon.push(point(radius, from + ((to - from) * s) / segments));
+          sides.push(side);
+        }
+      };
+      const moves = grid.moves[cell];
+      const children = Array.from({ length: ratio }, (_, k) => index(r + 1, i * ratio + k));
+      if (children.length > 0) moves[TopologyDirection.OUT] = children;
+
+      if (r === 0) {
+        // 中心格子只有外圈的边
+        const childTheta = (2 * Math.PI) / Math.max(1, children.length);
+        children.forEach((child, k) => addArc(1, k * childTheta, (k + 1) * childTheta, child));
+        if (children.length === 0) addArc(1, 0, 2 * Math.PI, null);
+        grid.centers[cell] = [rings, rings];
+      } else {
+        const parent = index(r - 1, Math.floor(i / (n / counts[r - 1])));
+        const cw = n > 1 ? index(r, i + 1) : null;
+        const ccw = n > 1 ? index(r, i - 1) : null;
+        // 内圈圆弧（父格子）→ 顺时针一侧 → 外圈圆弧（子格子, 倒序）→ 逆时针一侧
+        addArc(r, a0, a1, parent);
+        polygon.push(point(r, a1));
+        sides.push(cw);
+        if (children.length === 0) {
+          addArc(r + 1, a1, a0, null);
+        } else {
+          const childTheta = theta / children.length;
+          for (let k = children.length - 1; k >= 0; k--) {
+            addArc(r + 1, a0 + (k + 1) * childTheta, a0 + k * childTheta, children[k]);
+          }
+        }
+        polygon.push(point(r + 1, a0));
+        sides.push(ccw);
+        grid.centers[cell] = point(r + 0.5, (a0 + a1) / 2);
+        moves[TopologyDirection.IN] = [parent];
+        if (cw !== null) moves[TopologyDirection.CW] = [cw];
+        if (ccw !== null) moves[TopologyDirection.CCW] = [ccw];
+      }
+      grid.polygons[cell] = polygon;
+      grid.sides[cell] = sides;
+    }
+  }
+  return fillNeighbors(grid);
+};
+
+/**
+ * 定义 按拓扑创建网格的函数
+ * 尺寸沿用方格迷宫的边长（墙也算格子）：行列数（圆形的圈数）约为边长的一半, 三角形每行的格子数再翻倍
+ */
+export const createTopologyGrid = (topology: Topology, width: number, height: number): TopologyGrid => {
+  const cols = Math.max(2, Math.floor((width - 1) / 2));
+  const rows = Math.max(2, Math.floor((height - 1) / 2));
+  switch (topology) {
+    case Topology.TRIANGLE:
+      return createTriangleGrid(cols * 2, rows);
+    case Topology.THETA:
+      return createThetaGrid(rows);
+    default:
+      return createHexGrid(cols, rows);
+  }
+};
@@ -0,0 +1,281 @@
+import {
+  MazeAlgorithm,
+  RandomFn,
+  SolverAlgorithm,
+  Topology,
+  TopologyDirection,
+  TopologyGenerator,
+  TopologyGrid,
+  TopologyMaze,
+  TopologySolver,
+} from '@/types';
+import { randomInt, shuffle } from '@/lib/random';
+import { createTopologyGrid } from '@/lib/topology';
+
+/**
+ * 定义 生成两个格子之间通道的键的函数, 与顺序无关
+ */
+export const passageKey = (a: number, b: number): string => (a < b ? `${a},${b}` : `${b},${a}`);
+
+/**
+ * 定义 判断两个格子之间是否打通的函数
+ */
+export const isConnected = (maze: TopologyMaze, a: number, b: number): boolean =>
+  maze.passages.has(passageKey(a, b));
+
+/**
+ * 深度优先回溯：长而曲折的走廊
+ */
+const backtracking: TopologyGenerator = (grid, random) => {
+  const passages = new Set<string>();
+  const visited = new Uint8Array(grid.cellCount);
+  const stack = [randomInt(random, grid.cellCount)];
+  visited[stack[0]] = 1;
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const options = grid.neighbors[current].filter((next) => !visited[next]);
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = options[randomInt(random, options.length)];
+    visited[next] = 1;
+    passages.add(passageKey(current, next));
+    stack.push(next);
+  }
+  return passages;
+};
+
+/**
+ * 随机 Prim：从一个格子向外扩张, 每次随机接入一个边界格子
+ */
+const prim: TopologyGenerator = (grid, random) => {
+  const passages = new Set<string>();
+  const inMaze = new Uint8Array(grid.cellCount);
+  const frontier: number[] = [];
+  const inFrontier = new Uint8Array(grid.cellCount);
+  // 定义 把格子加入迷宫并把它的邻居加入边界的函数
+  const add = (cell: number) => {
+    inMaze[cell] = 1;
+    for (const next of grid.neighbors[cell]) {
+      if (inMaze[next] || inFrontier[next]) continue;
+      inFrontier[next] = 1;
+      frontier.push(next);
+    }
+  };
+  add(randomInt(random, grid.cellCount));
+  while (frontier.length > 0) {
+    // 随机取出一个边界格子（与末尾交换后弹出, O(1)）
+    const pick = randomInt(random, frontier.length);
+    [frontier[pick], frontier[frontier.length - 1]] = [frontier[frontier.length - 1], frontier[pick]];
+    const cell = frontier.pop() as number;
+    const connected = grid.neighbors[cell].filter((next) => inMaze[next]);
+    passages.add(passageKey(cell, connected[randomInt(random, connected.length)]));
+    add(cell);
+  }
+  return passages;
+};
+
+/**
+ * 随机 Kruskal：随机顺序打通墙, 用并查集保证不产生环
+ */
+const kruskal: TopologyGenerator = (grid, random) => {
+  const passages = new Set<string>();
+  const parent = Array.from({ length: grid.cellCount }, (_, i) => i);
+  // 定义 查找集合代表元的函数（路径压缩）
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const edges: [number, number][] = [];
+  grid.neighbors.forEach((neighbors, cell) => {
+    neighbors.forEach((next) => {
+      if (cell < next) edges.push([cell, next]);
+    });
+  });
+  shuffle(edges, random);
+  for (const [a, b] of edges) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) continue;
+    parent[rootA] = rootB;
+    passages.add(passageKey(a, b));
+  }
+  return passages;
+};
+
+/**
+ * Wilson：擦除环的随机游走, 生成均匀分布的生成树
+ */
+const wilson: TopologyGenerator = (grid, random) => {
+  const passages = new Set<string>();
+  const inMaze = new Uint8Array(grid.cellCount);
+  // 随机游走中每个格子最后一次离开时去往的格子, 覆盖写入即实现了"擦除环"
+  const next = new Int32Array(grid.cellCount).fill(-1);
+  inMaze[randomInt(random, grid.cellCount)] = 1;
+  for (let cell = 0; cell < grid.cellCount; cell++) {
+    let current = cell;
+    while (!inMaze[current]) {
+      const options = grid.neighbors[current];
+      next[current] = options[randomInt(random, options.length)];
+      current = next[current];
+    }
+    current = cell;
+    while (!inMaze[current]) {
+      inMaze[current] = 1;
+      passages.add(passageKey(current, next[current]));
+      current = next[current];
+    }
+  }
+  return passages;
+};
+
+/**
+ * 非方格拓扑的生成算法注册表
+ * Eller、二叉树和递归分割依赖方格的行列结构, 不支持其他拓扑
+ */
+export const TOPOLOGY_GENERATORS: Partial<Record<MazeAlgorithm, TopologyGenerator>> = {
+  [MazeAlgorithm.BACKTRACKING]: backtracking,
+  [MazeAlgorithm.PRIM]: prim,
+  [MazeAlgorithm.KRUSKAL]: kruskal,
+  [MazeAlgorithm.WILSON]: wilson,
+};
+
+/**
+ * 定义 从指定格子沿通道广度优先搜索的函数, 返回到每个格子的前驱（未到达为 -1）和访问顺序
+ */
+const searchFrom = (maze: TopologyMaze, from: number, to: number | null) => {
+  const prev = new Int32Array(maze.grid.cellCount).fill(-1);
+  const visited = [from];
+  prev[from] = from;
+  for (let head = 0; head < visited.length; head++) {
+    const current = visited[head];
+    if (current === to) break;
+    for (const next of maze.grid.neighbors[current]) {
+      if (prev[next] !== -1 || !isConnected(maze, current, next)) continue;
+      prev[next] = current;
+      visited.push(next);
+    }
+  }
+  return { prev, visited };
+};
+
+/**
+ * 定义 根据前驱数组回溯出路线的函数
+ */
+const tracePath = (prev: Int32Array, from: number, to: number): number[] => {
+  if (prev[to] === -1) return [];
+  const path = [to];
+  while (path[path.length - 1] !== from) {
+    path.push(prev[path[path.length - 1]]);
+  }
+  return path.reverse();
+};
+
+/**
+ * 广度优先搜索：保证最短路线
+ */
+const bfs: TopologySolver = (maze) => {
+  const { prev, visited } = searchFrom(maze, maze.start, maze.end);
+  return { path: tracePath(prev, maze.start, maze.end), visited };
+};
+
+/**
+ * A*：以格子中心之间的直线距离为启发, 优先探索更靠近终点的格子
+ */
+const aStar: TopologySolver = (maze) => {
+  const { grid, start, end } = maze;
+  const [ex, ey] = grid.centers[end];
+  const heuristic = (cell: number) => Math.hypot(grid.centers[cell][0] - ex, grid.centers[cell][1] - ey);
+  const prev = new Int32Array(grid.cellCount).fill(-1);
+  const cost = new Float64Array(grid.cellCount).fill(Infinity);
+  const closed = new Uint8Array(grid.cellCount);
+  const visited: number[] = [];
+  // 非方格网格不大, 用数组取最小值代替堆
+  const open = [start];
+  prev[start] = start;
+  cost[start] = 0;
+  while (open.length > 0) {
+    let best = 0;
+    for (let k = 1; k < open.length; k++) {
+      if (cost[open[k]] + heuristic(open[k]) < cost[open[best]] + heuristic(open[best])) best = k;
+    }
+    const current = open.splice(best, 1)[0];
+    if (closed[current]) continue;
+    closed[current] = 1;
+    visited.push(current);
+    if (current === end) break;
+    for (const next of grid.neighbors[current]) {
+      if (closed[next] || !isConnected(maze, current, next)) continue;
+      const [cx, cy] = grid.centers[current];
+      const nextCost = cost[current] + Math.hypot(grid.centers[next][0] - cx, grid.centers[next][1] - cy);
+      if (nextCost >= cost[next]) continue;
+      cost[next] = nextCost;
+      prev[next] = current;
+      open.push(next);
+    }
+  }
+  return { path: tracePath(prev, start, end), visited };
+};
+
+/**
+ * 非方格拓扑的寻路算法注册表
+ * 沿墙走、Trémaux 等依赖方格朝向的算法不支持其他拓扑
+ */
+export const TOPOLOGY_SOLVERS: Partial<Record<SolverAlgorithm, TopologySolver>> = {
+  [SolverAlgorithm.BFS]: bfs,
+  [SolverAlgorithm.A_STAR]: aStar,
+};
+
+/**
+ * 定义 求解非方格拓扑迷宫的函数, 不支持的算法改用广度优先搜索
+ */
+export const solveTopologyMaze = (maze: TopologyMaze, solver: SolverAlgorithm) =>
+  (TOPOLOGY_SOLVERS[solver] ?? bfs)(maze);
+
+/**
+ * 定义 生成非方格拓扑迷宫的函数
+ * 不支持的算法改用深度优先回溯；圆形迷宫从最外圈走到圆心, 其他拓扑从第一个格子走到离它最远的格子
+ */
+export const generateTopologyMaze = (
+  topology: Topology,
+  width: number,
+  height: number,
+  algorithm: MazeAlgorithm,
+  random: RandomFn
+): TopologyMaze => {
+  const grid: TopologyGrid = createTopologyGrid(topology, width, height);
+  const generate = TOPOLOGY_GENERATORS[algorithm] ?? backtracking;
+  const maze: TopologyMaze = { grid, passages: generate(grid, random), start: 0, end: 0 };
+  if (topology === Topology.THETA) {
+    // 最外圈的格子没有向外的邻居, 随机选一个作为起点, 终点是圆心
+    const outer = grid.moves
+      .map((moves, cell) => (moves[TopologyDirection.OUT] ? -1 : cell))
+      .filter((cell) => cell > 0);
+    maze.start = outer[randomInt(random, outer.length)];
+    return maze;
+  }
+  const { visited } = searchFrom(maze, 0, null);
+  maze.end = visited[visited.length - 1];
+  return maze;
+};
+
+/**
+ * 定义 按方向移动一格的函数, 依次尝试各方向的候选格子, 返回第一个打通的格子, 都不通时返回 null
+ * 一个按键可以对应多个方向（如六边形中 ↑ 对应左上和右上）
+ */
+export const getTopologyMove = (
+  maze: TopologyMaze,
+  cell: number,
+  directions: TopologyDirection[]
+): number | null => {
+  for (const direction of directions) {
+    for (const target of maze.grid.moves[cell][direction] ?? []) {
+      if (isConnected(maze, cell, target)) return target;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,66 @@
+import { Cell, Position, VisibilityMode } from '@/types';
+
+/**
+ * 定义 判断两格之间视线是否通畅的函数（Bresenham 直线）
+ * 途经的格子（不含两端）必须都是路；斜着穿过时两侧至少有一侧是路, 避免从墙角缝隙看穿
+ */
+const hasLineOfSight = (maze: Cell[][], from: Position, to: Position): boolean => {
+  const dx = Math.abs(to.x - from.x);
+  const dy = Math.abs(to.y - from.y);
+  const sx = from.x < to.x ? 1 : -1;
+  const sy = from.y < to.y ? 1 : -1;
+  let error = dx - dy;
+  let x = from.x;
+  let y = from.y;
+  while (x !== to.x || y !== to.y) {
+    const doubled = error * 2;
+    const stepX = doubled > -dy;
+    const stepY = doubled < dx;
+    if (stepX && stepY && maze[x + sx]?.[y] !== 1 && maze[x]?.[y + sy] !== 1) {
+      return false;
+    }
+    if (stepX) {
+      error -= dy;
+      x += sx;
+    }
+    if (stepY) {
+      error += dx;
+      y += sy;
+    }
+    if ((x !== to.x || y !== to.y) && maze[x]?.[y] !== 1) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * 定义 计算从某个位置能看到的格子的函数
+ * RADIUS 返回半径内的所有格子（含墙）, LINE_OF_SIGHT 再去掉视线被墙挡住的格子, FULL 返回整个迷宫
+ */
+export const getVisibleCells = (
+  maze: Cell[][],
+  center: Position,
+  mode: VisibilityMode,
+  radius: number
+): Position[] => {
+  const width = maze.length;
+  const height = maze[0]?.length ?? 0;
+  const visible: Position[] = [];
+  if (mode === VisibilityMode.FULL) {
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        visible.push({ x, y });
+      }
+    }
+    return visible;
+  }
+  for (let x = Math.max(0, center.x - radius); x <= Math.min(width - 1, center.x + radius); x++) {
+    for (let y = Math.max(0, center.y - radius); y <= Math.min(height - 1, center.y + radius); y++) {
+      if ((x - center.x) ** 2 + (y - center.y) ** 2 > radius * radius) continue;
+      if (mode === VisibilityMode.LINE_OF_SIGHT && !hasLineOfSight(maze, center, { x, y })) continue;
+      visible.push({ x, y });
+    }
+  }
+  return visible;
+};
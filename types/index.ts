@@ -11,6 +11,7 @@ export type Cell = 0 | 1;
 export type Position = {
   x: number;
   y: number;
+  level?: number; // 多层迷宫中所在的层, 省略时为第 0 层
 };
 
 /**
@@ -31,3 +32,450 @@ export enum Difficulty {
   MEDIUM = 'MEDIUM',
   HARD = 'HARD',
 }
+
+/**
+ * 随机数函数类型, 返回值范围 [0, 1)
+ * 与 Math.random 签名一致, 便于替换为带种子的伪随机数生成器
+ */
+export type RandomFn = () => number;
+
+/**
+ * 迷宫生成算法枚举
+ */
+export enum MazeAlgorithm {
+  BACKTRACKING = 'BACKTRACKING',
+  PRIM = 'PRIM',
+  KRUSKAL = 'KRUSKAL',
+  WILSON = 'WILSON',
+  ELLER = 'ELLER',
+  BINARY_TREE = 'BINARY_TREE',
+  RECURSIVE_DIVISION = 'RECURSIVE_DIVISION',
+}
+
+/**
+ * 生成事件类型
+ * CARVE: 打通一格  WALL: 砌墙  HEAD: 生成器当前所在位置  BRANCH: 额外分支打通的格子
+ */
+export enum GenerationEventType {
+  CARVE = 'CARVE',
+  WALL = 'WALL',
+  HEAD = 'HEAD',
+  BRANCH = 'BRANCH',
+}
+
+/**
+ * 生成事件, 从全是墙的网格开始按顺序回放即可重现生成过程
+ */
+export type GenerationEvent = {
+  type: GenerationEventType;
+  pos: Position;
+};
+
+/**
+ * 迷宫生成函数类型
+ * 返回 maze[x][y] 结构的完美迷宫（任意两格之间只有一条路）, 边界都是墙
+ * 传入 events 时按顺序记录生成过程
+ */
+export type MazeGenerator = (
+  width: number,
+  height: number,
+  random: RandomFn,
+  events?: GenerationEvent[]
+) => Cell[][];
+
+/**
+ * 迷宫生成选项
+ * branches / branchMaxLength: 额外死路分支的数量和最大长度
+ * braid: 0~1, 消除死路（打通墙形成环路）的比例, 0 为完美迷宫
+ * random: 随机数函数, 传入带种子的函数即可复现迷宫
+ * algorithm: 生成算法, 默认递归回溯
+ * events: 传入时记录生成过程, 用于动画回放
+ */
+export type MazeGenerationOptions = {
+  branches?: number;
+  branchMaxLength?: number;
+  braid?: number;
+  random?: RandomFn;
+  algorithm?: MazeAlgorithm;
+  events?: GenerationEvent[];
+  endpoints?: EndpointMode;
+  entities?: EntityConfig;
+};
+
+/**
+ * 可导入导出的迷宫数据
+ * seed / algorithm / difficulty 为可选的元信息, 导入的迷宫可能没有；preset 为生成时使用的自定义难度名称
+ * openings 为外墙上的出入口（只用于显示, 不可通行）, entities 为迷宫中的机关
+ */
+export type MazeData = {
+  maze: Cell[][];
+  start: Position;
+  end: Position;
+  seed?: number;
+  algorithm?: MazeAlgorithm;
+  difficulty?: Difficulty;
+  preset?: string;
+  openings?: Position[];
+  entities?: MazeEntity[];
+};
+
+/**
+ * 迷宫导出格式枚举
+ */
+export enum MazeFormat {
+  ASCII = 'ASCII',
+  JSON = 'JSON',
+  CODE = 'CODE',
+}
+
+/**
+ * 寻路算法枚举
+ */
+export enum SolverAlgorithm {
+  BFS = 'BFS',
+  A_STAR = 'A_STAR',
+  BIDIRECTIONAL_BFS = 'BIDIRECTIONAL_BFS',
+  LEFT_HAND = 'LEFT_HAND',
+  RIGHT_HAND = 'RIGHT_HAND',
+  TREMAUX = 'TREMAUX',
+  DEAD_END_FILLING = 'DEAD_END_FILLING',
+}
+
+/**
+ * 搜索事件类型
+ * FRONTIER: 格子进入待探索的边界（入队 / 走到的当前位置）
+ * VISIT: 格子探索完毕（出队 / 离开 / 被填充）
+ */
+export enum SearchEventType {
+  FRONTIER = 'FRONTIER',
+  VISIT = 'VISIT',
+}
+
+/**
+ * 搜索事件, 按顺序回放即可重现寻路的搜索过程
+ */
+export type SearchEvent = {
+  type: SearchEventType;
+  pos: Position;
+};
+
+/**
+ * 寻路结果
+ * path: 从起点到终点的路线（含起点和终点）, 无解时为空数组
+ * visited: 按访问顺序排列的被探索过的格子
+ * events: 搜索过程中的事件序列, 用于可视化回放
+ */
+export type SolverResult = {
+  path: Position[];
+  visited: Position[];
+  events: SearchEvent[];
+};
+
+/**
+ * 寻路函数类型
+ */
+export type MazeSolver = (maze: Cell[][], start: Position, end: Position) => SolverResult;
+
+/**
+ * 一局游戏的统计
+ * startedAt / finishedAt: 第一步和到达终点的时间戳（毫秒）, 未开始 / 未结束时为 null
+ * moves: 移动步数；backtracks: 走回已走过格子的次数
+ * autoSolved: 本局是否使用了一键通关
+ * hintsUsed / hintPenalty: 使用提示的次数和累计扣分
+ */
+export type RunStats = {
+  startedAt: number | null;
+  finishedAt: number | null;
+  moves: number;
+  backtracks: number;
+  autoSolved: boolean;
+  hintsUsed: number;
+  hintPenalty: number;
+};
+
+/**
+ * 保存在本地的一局游戏记录
+ * code: 迷宫的链接码, 用于重玩这局的迷宫（导入的迷宫没有种子, 只能靠链接码还原）
+ * time: 用时（毫秒）；efficiency: 效率分（0-100）；score: 效率分减去提示扣分
+ * hintsUsed / hintPenalty / score 是后来加入的字段, 旧记录中没有
+ * preset: 使用自定义难度时为预设名称, 这类记录不进入内置难度的排行榜
+ */
+export type RunRecord = {
+  id: string;
+  finishedAt: number;
+  difficulty: Difficulty;
+  preset?: string;
+  seed?: number;
+  algorithm?: MazeAlgorithm;
+  code: string;
+  time: number;
+  moves: number;
+  backtracks: number;
+  optimalSteps: number;
+  efficiency: number;
+  autoSolved: boolean;
+  hintsUsed?: number;
+  hintPenalty?: number;
+  score?: number;
+};
+
+/**
+ * 录像中的一步：方向和距离第一步的时间（毫秒）
+ */
+export type ReplayMove = {
+  direction: Direction;
+  time: number;
+};
+
+/**
+ * 一局游戏的录像：迷宫（含种子等元信息）和按顺序排列的每一步
+ */
+export type Replay = {
+  data: MazeData;
+  moves: ReplayMove[];
+};
+
+/**
+ * 起终点位置模式枚举
+ * CORNERS: 左上角到右下角；RANDOM: 随机两个路格；EDGE_OPENINGS: 相对两侧外墙上开口；FARTHEST: 最短路最长的两个格子
+ */
+export enum EndpointMode {
+  CORNERS = 'CORNERS',
+  RANDOM = 'RANDOM',
+  EDGE_OPENINGS = 'EDGE_OPENINGS',
+  FARTHEST = 'FARTHEST',
+}
+
+/**
+ * 视野模式枚举
+ * FULL: 整个迷宫可见；RADIUS: 只能看到一定半径内的格子；LINE_OF_SIGHT: 半径内且视线不被墙挡住的格子
+ */
+export enum VisibilityMode {
+  FULL = 'FULL',
+  RADIUS = 'RADIUS',
+  LINE_OF_SIGHT = 'LINE_OF_SIGHT',
+}
+
+/**
+ * 键位绑定：每个方向对应的按键（KeyboardEvent.key 的小写形式）
+ */
+export type KeyBindings = Record<Direction, string[]>;
+
+/**
+ * 提示类型枚举
+ * PATH: 显示最短路线接下来的若干格；DIRECTION: 只告诉下一个岔路口该往哪走
+ */
+export enum HintType {
+  PATH = 'PATH',
+  DIRECTION = 'DIRECTION',
+}
+
+/**
+ * 一次提示的内容：要高亮的格子, 方向提示时还有岔路口位置和方向
+ */
+export type Hint = {
+  type: HintType;
+  cells: Position[];
+  junction?: Position;
+  direction?: Direction;
+};
+
+/**
+ * 迷宫分析结果
+ * solutionLength: 最短路线步数, 无解时为 -1
+ * deadEnds / junctions: 死路（只有一个出口）和岔路口（三个及以上出口）的数量
+ * riverFactor: 河流度, 岔路口和死路之间走廊的平均长度, 越大通道越长、分叉越少
+ * longestCorridor: 最长的一段不分叉走廊的格数
+ * solutionRatio: 最短路线经过的格子占全部路格的比例
+ */
+export type MazeAnalysis = {
+  openCells: number;
+  solutionLength: number;
+  deadEnds: number;
+  junctions: number;
+  riverFactor: number;
+  longestCorridor: number;
+  solutionRatio: number;
+};
+
+/**
+ * 难度的目标区间：分析结果落在区间外的迷宫可以被自动重新生成
+ */
+export type AnalysisBand = {
+  minSolutionRatio: number;
+  maxSolutionRatio: number;
+};
+
+/**
+ * 自定义难度（玩家保存的预设）
+ * 尺寸必须是奇数；环路比例、视野和提示等沿用当前选择的内置难度
+ */
+export type MazePreset = {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  branches: number;
+  branchMaxLength: number;
+  algorithm: MazeAlgorithm;
+};
+
+/**
+ * 迷宫拓扑枚举
+ * SQUARE: 方格（墙也是格子的 Cell[][]）；HEX: 六边形；TRIANGLE: 三角形；THETA: 圆形（同心圆环）
+ */
+export enum Topology {
+  SQUARE = 'SQUARE',
+  HEX = 'HEX',
+  TRIANGLE = 'TRIANGLE',
+  THETA = 'THETA',
+}
+
+/**
+ * 非方格拓扑中的移动方向, 每种拓扑只使用其中一部分
+ * 六边形使用上下四个斜向和左右；三角形使用上下左右；圆形使用顺 / 逆时针和向内 / 向外
+ */
+export enum TopologyDirection {
+  UP = 'UP',
+  DOWN = 'DOWN',
+  LEFT = 'LEFT',
+  RIGHT = 'RIGHT',
+  UP_LEFT = 'UP_LEFT',
+  UP_RIGHT = 'UP_RIGHT',
+  DOWN_LEFT = 'DOWN_LEFT',
+  DOWN_RIGHT = 'DOWN_RIGHT',
+  CW = 'CW',
+  CCW = 'CCW',
+  IN = 'IN',
+  OUT = 'OUT',
+}
+
+/**
+ * 非方格拓扑的网格：格子用下标 0..cellCount-1 表示, 墙不再是格子而是格子之间的边
+ * polygons: 每个格子的多边形顶点（布局坐标, 范围 [0, width] x [0, height]）
+ * sides: 多边形第 k 条边（顶点 k 到 k+1）另一侧的格子, 外墙为 null
+ * moves: 每个格子在各方向上可以去的格子（圆形向外可能有多个候选）
+ */
+export type TopologyGrid = {
+  topology: Topology;
+  cellCount: number;
+  width: number;
+  height: number;
+  neighbors: number[][];
+  polygons: [number, number][][];
+  sides: (number | null)[][];
+  centers: [number, number][];
+  moves: Partial<Record<TopologyDirection, number[]>>[];
+};
+
+/**
+ * 非方格拓扑的迷宫
+ * passages 保存打通的格子对, 键为 "较小下标,较大下标"
+ */
+export type TopologyMaze = {
+  grid: TopologyGrid;
+  passages: Set<string>;
+  start: number;
+  end: number;
+};
+
+/**
+ * 非方格拓扑的生成算法：在网格上生成一棵生成树, 返回打通的格子对
+ */
+export type TopologyGenerator = (grid: TopologyGrid, random: RandomFn) => Set<string>;
+
+/**
+ * 非方格拓扑的寻路算法, 返回的路线和访问顺序都是格子下标
+ */
+export type TopologySolver = (maze: TopologyMaze) => { path: number[]; visited: number[] };
+
+/**
+ * 多层迷宫：floors[level] 是每一层的 Cell[][]
+ * stairs 保存楼梯, 键为 "x,y,level", 表示第 level 层和第 level + 1 层在 (x, y) 相通
+ */
+export type MultiLevelMaze = {
+  floors: Cell[][][];
+  stairs: Set<string>;
+  start: Position;
+  end: Position;
+};
+
+/**
+ * 迷宫机关类型
+ * KEY: 钥匙, 捡到后可以打开同色的门；DOOR: 门, 没有同色钥匙时不能通过；COIN: 金币, 集齐后终点才开放；
+ * TELEPORTER: 传送门, 走上去会被传送到配对的另一个传送门；ONE_WAY: 单向格, 进入和离开都只能沿箭头方向
+ */
+export enum EntityType {
+  KEY = 'KEY',
+  DOOR = 'DOOR',
+  COIN = 'COIN',
+  TELEPORTER = 'TELEPORTER',
+  ONE_WAY = 'ONE_WAY',
+}
+
+/**
+ * 钥匙和门的颜色
+ */
+export enum KeyColor {
+  RED = 'RED',
+  BLUE = 'BLUE',
+  YELLOW = 'YELLOW',
+}
+
+/**
+ * 迷宫中的机关, 放在路格上, 每个格子最多一个
+ */
+export type MazeEntity =
+  | { type: EntityType.KEY; pos: Position; color: KeyColor }
+  | { type: EntityType.DOOR; pos: Position; color: KeyColor }
+  | { type: EntityType.COIN; pos: Position }
+  | { type: EntityType.TELEPORTER; pos: Position; target: Position }
+  | { type: EntityType.ONE_WAY; pos: Position; direction: Direction };
+
+/**
+ * 每种机关的数量, 门的数量同时也是钥匙的数量, 传送门按对计算
+ */
+export type EntityConfig = {
+  doors: number;
+  coins: number;
+  teleporters: number;
+  oneWays: number;
+};
+
+/**
+ * 敌人的状态：PATROL 在附近随机巡逻；CHASE 看到玩家后沿最短路线追赶
+ */
+export enum EnemyMode {
+  PATROL = 'PATROL',
+  CHASE = 'CHASE',
+}
+
+/**
+ * 迷宫中的敌人, route 为巡逻时剩下的路线（不含当前位置）
+ */
+export type Enemy = {
+  id: number;
+  pos: Position;
+  mode: EnemyMode;
+  route: Position[];
+};
+
+/**
+ * 敌人设置：数量、速度（步/秒）和视野（沿路线的格数, 玩家在视野内时开始追赶）
+ */
+export type EnemyConfig = {
+  count: number;
+  speed: number;
+  vision: number;
+};
+
+/**
+ * 双人对战中一名玩家的配置：名称、标记和足迹的颜色、固定的键位及其说明
+ */
+export type VersusPlayer = {
+  label: string;
+  keysLabel: string;
+  color: string;
+  trailColor: string;
+  bindings: KeyBindings;
+};